@@ -0,0 +1,77 @@
+/**
+ * @file Benchmarks the frame codecs against each other.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+const child = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { argv, execPath, exit } = require('process');
+
+/**
+ * Arguments passed from the command line, excluding 'node' and the script path.
+ * @type {string[]}
+ */
+const ARGS = argv.slice(2);
+
+/**
+ * The compiled entry point.
+ * @type {string}
+ */
+const ENTRY_POINT = path.join('bin', 'index.js');
+
+/**
+ * The frame codecs to compare.
+ * @type {string[]}
+ */
+const CODECS = ['rawvideo', 'mjpeg', 'png'];
+
+if (ARGS.length === 0) {
+    console.error('usage: npm run benchmark -- input [extra arguments...]');
+    exit(1);
+}
+
+if (!fs.existsSync(ENTRY_POINT)) {
+    console.error(`"${ENTRY_POINT}" does not exist. Run "npm run tsc" first.`);
+    exit(1);
+}
+
+const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'openblueline-'));
+const results = [];
+for (let codec of CODECS) {
+    const output = path.join(outputDir, codec + '.mp4');
+    console.log(`Running with ${codec} frames.`);
+
+    const start = process.hrtime.bigint();
+    const result = child.spawnSync(
+        execPath,
+        [ENTRY_POINT, ARGS[0], '-o', output, '-c', codec, ...ARGS.slice(1)],
+        { stdio: ['ignore', 'ignore', 'inherit'] }
+    );
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+    results.push({
+        codec,
+        seconds: (result.status === 0 ? seconds.toFixed(2) : 'failed'),
+        bytes: (fs.existsSync(output) ? fs.statSync(output).size : 0)
+    });
+}
+
+fs.rmSync(outputDir, { recursive: true, force: true });
+console.table(results);
@@ -42,14 +42,15 @@ const BIN_DIR = 'bin';
 const VERSION_FILE = path.join(BIN_DIR, 'VERSION');
 
 /**
- * The node-canvas build release directory.
+ * The directory holding the canvas packages, including the native ones for
+ * each platform.
  */
-const CANVAS_BIN_DIR = path.join('node_modules', 'canvas', 'build', 'Release');
+const CANVAS_PACKAGES_DIR = path.join('node_modules', '@napi-rs');
 
 /**
- * The destination node-canvas build release directory.
+ * The destination directory of the canvas packages.
  */
-const DEST_CANVAS_BIN_DIR = path.join(BIN_DIR, CANVAS_BIN_DIR);
+const DEST_CANVAS_PACKAGES_DIR = path.join(BIN_DIR, CANVAS_PACKAGES_DIR);
 
 /**
  * Copies a file and tells about it.
@@ -76,13 +77,15 @@ fs.writeFileSync(VERSION_FILE, packageJson.version, { encoding: 'utf-8' });
 
 
 // Special operation because of native modules.
-if (!fs.existsSync(DEST_CANVAS_BIN_DIR)) {
-    fs.mkdirSync(DEST_CANVAS_BIN_DIR, { recursive: true });
-    fs.readdirSync(CANVAS_BIN_DIR, { withFileTypes: true }).forEach(function(value, index, array) {
-        if (!value.isDirectory() && ['.pdb', '.exp', '.lib', '.ilk'].indexOf(path.extname(value.name)) === -1) {
-            const src = path.join(CANVAS_BIN_DIR, value.name);
-            const dest = path.join(DEST_CANVAS_BIN_DIR, value.name);
-            CopyFile(src, dest);
+if (!fs.existsSync(DEST_CANVAS_PACKAGES_DIR)) {
+    fs.mkdirSync(DEST_CANVAS_PACKAGES_DIR, { recursive: true });
+    fs.readdirSync(CANVAS_PACKAGES_DIR, { withFileTypes: true }).forEach(function(value, index, array) {
+        // Only the packages holding the native module are needed next to the executable.
+        if (value.isDirectory() && value.name.startsWith('canvas-')) {
+            const src = path.join(CANVAS_PACKAGES_DIR, value.name);
+            const dest = path.join(DEST_CANVAS_PACKAGES_DIR, value.name);
+            console.log(`Copying "${src}" to "${dest}".`);
+            fs.cpSync(src, dest, { recursive: true });
         }
     });
 }
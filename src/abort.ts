@@ -0,0 +1,55 @@
+/**
+ * @file Module for cancelling work.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+/**
+ * The parts of an AbortSignal that are used, so one from AbortController or
+ * anything that acts like it can be passed in.
+ */
+export interface AbortSignalLike {
+    /**
+     * Whether the work has been cancelled.
+     */
+    readonly aborted: boolean;
+
+    /**
+     * Adds a listener for when the work is cancelled.
+     * @param type Always "abort".
+     * @param listener The listener.
+     */
+    addEventListener(type: 'abort', listener: () => void): void;
+
+    /**
+     * Removes a listener added with addEventListener.
+     * @param type Always "abort".
+     * @param listener The listener.
+     */
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * The error work is stopped with when it's cancelled.
+ */
+export class AbortError extends Error {
+    constructor(message: string = 'The operation was aborted.') {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
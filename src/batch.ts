@@ -0,0 +1,314 @@
+/**
+ * @file Module for running the generator over many inputs.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { GenerateResult } from './blueline';
+import { Glob, IsGlobPattern } from './glob';
+import { IsSequenceImage, IsSequencePattern } from './sequence';
+import { IsStdio } from './stdio';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Extensions of videos found when a directory of them is given as an input.
+ */
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.mkv', '.webm', '.avi', '.wmv', '.flv', '.mpg', '.mpeg', '.ts', '.mts', '.mxf', '.gif'];
+
+/**
+ * Matches the placeholders of an output template, such as "{name}".
+ */
+const PLACEHOLDER_PATTERN = /\{(\w*)\}/g;
+
+/**
+ * The names of the placeholders an output template can hold.
+ */
+export const OUTPUT_PLACEHOLDERS = ['name', 'ext', 'dir', 'color', 'effect', 'mode'];
+
+/**
+ * Values of the placeholders of an output template that are the same for
+ * every input.
+ */
+export interface OutputTemplateValues {
+    /**
+     * The direction the line goes, or its angle.
+     */
+    dir: string;
+
+    /**
+     * The colour of the line.
+     */
+    color: string;
+
+    /**
+     * The effect compositing the frozen area.
+     */
+    effect: string;
+
+    /**
+     * What the line does.
+     */
+    mode: string;
+}
+
+/**
+ * One input to generate the effect for and where it goes.
+ */
+export interface BatchJob {
+    /**
+     * The input.
+     */
+    input: string;
+
+    /**
+     * The output.
+     */
+    output: string;
+}
+
+/**
+ * How a job of a batch went.
+ */
+export interface BatchResult {
+    /**
+     * The job.
+     */
+    job: BatchJob;
+
+    /**
+     * The result of the generator, or null if it failed.
+     */
+    result: GenerateResult;
+
+    /**
+     * Why the job failed, or null if it succeeded.
+     */
+    error: Error;
+
+    /**
+     * Seconds the job took.
+     */
+    time: number;
+}
+
+/**
+ * Runs one job of a batch.
+ */
+export type BatchJobRunner = (job: BatchJob) => Promise<GenerateResult>;
+
+/**
+ * Whether a directory is an image sequence rather than a directory of videos.
+ * @param directory The directory.
+ */
+function IsSequenceDirectory(directory: string): boolean {
+    const files = fs.readdirSync(directory);
+    return files.some(IsSequenceImage) && !files.some(IsVideo);
+}
+
+/**
+ * Whether a file is a video that can be picked up from a directory.
+ * @param file The path of the file.
+ */
+function IsVideo(file: string): boolean {
+    return VIDEO_EXTENSIONS.indexOf(path.extname(file).toLowerCase()) !== -1;
+}
+
+/**
+ * Expands one input into the inputs it stands for.
+ * @param value A file, image sequence, directory or pattern with wildcards.
+ */
+function ExpandInput(value: string): string[] {
+    if (IsStdio(value) || IsSequencePattern(value)) {
+        return [value];
+    }
+
+    if (!fs.existsSync(value) && IsGlobPattern(value)) {
+        const matches = Glob(value).filter((match) => fs.statSync(match).isDirectory() || IsVideo(match) || IsSequenceImage(match));
+        if (matches.length === 0) {
+            throw new Error(`No inputs match "${value}".`);
+        }
+
+        return [].concat(...matches.map(ExpandInput));
+    }
+
+    if (fs.existsSync(value) && fs.statSync(value).isDirectory() && !IsSequenceDirectory(value)) {
+        const videos = fs.readdirSync(value).filter(IsVideo).sort();
+        if (videos.length === 0) {
+            throw new Error(`No videos or numbered images found in "${value}".`);
+        }
+
+        return videos.map((video) => path.join(value, video));
+    }
+
+    return [value];
+}
+
+/**
+ * Expands the inputs given on the command line. Directories of videos become
+ * every video in them, patterns with wildcards become the paths matching them
+ * and anything else is kept as it is. Directories of numbered images are kept
+ * as image sequences.
+ * @param values The inputs.
+ * @returns The inputs without duplicates, in the order they were given.
+ */
+export function ExpandInputs(values: string[]): string[] {
+    const inputs: string[] = [];
+    for (let value of values) {
+        for (let input of ExpandInput(value)) {
+            if (inputs.indexOf(input) === -1) {
+                inputs.push(input);
+            }
+        }
+    }
+
+    if (inputs.length > 1 && inputs.some(IsStdio)) {
+        throw new Error('Input from stdin can\'t be batched with other inputs.');
+    }
+
+    return inputs;
+}
+
+/**
+ * Gets the name of an input without its extension. Sequence patterns lose
+ * their frame number.
+ * @param input The input.
+ */
+function GetInputName(input: string): string {
+    const name = path.basename(input).replace(/[_.-]?%\d*d/, '');
+    const isFile = !(fs.existsSync(input) && fs.statSync(input).isDirectory());
+    return (isFile && path.extname(name) ? name.substring(0, name.length - path.extname(name).length) : name);
+}
+
+/**
+ * Gets the default output of an input, named after it and written next to it.
+ * @param input The input.
+ * @param exportMode What gets written out.
+ */
+export function GetDefaultOutput(input: string, exportMode: string): string {
+    const suffix = (exportMode === 'video' ? '_blueline' : '_' + exportMode);
+    const extension = (exportMode === 'overlay' ? '.mov' : '.mp4');
+    const name = GetInputName(input);
+    const isDirectory = (fs.existsSync(input) && fs.statSync(input).isDirectory());
+
+    // Inputs without an extension keep going without one, except for
+    // directories of images, which become a video next to them.
+    const hasExtension = (isDirectory || path.extname(path.basename(input).replace(/[_.-]?%\d*d/, '')) !== '');
+    return path.join(path.dirname(input), name + suffix + (hasExtension ? extension : ''));
+}
+
+/**
+ * Fills in the placeholders of an output template for an input.
+ * @param template The template, such as "renders/{name}_{dir}_{color}.mp4".
+ * @param input The input.
+ * @param values Values of the placeholders that are the same for every input.
+ */
+export function FillOutputTemplate(template: string, input: string, values: OutputTemplateValues): string {
+    const inputValues: { [name: string]: string } = {
+        ...values,
+        name: GetInputName(input),
+        ext: path.extname(input).substring(1)
+    };
+
+    return template.replace(PLACEHOLDER_PATTERN, function(match: string, name: string) {
+        if (OUTPUT_PLACEHOLDERS.indexOf(name) === -1) {
+            throw new Error(`Unknown placeholder "${match}" in output "${template}". Expected one of ${OUTPUT_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(', ')}.`);
+        }
+
+        return inputValues[name];
+    });
+}
+
+/**
+ * Checks that no two jobs write to the same output.
+ * @param jobs The jobs.
+ */
+export function ValidateBatchOutputs(jobs: BatchJob[]) {
+    const inputsByOutput: { [output: string]: string } = {};
+    for (let job of jobs) {
+        const output = path.resolve(job.output);
+        if (inputsByOutput[output] !== undefined) {
+            throw new Error(`"${inputsByOutput[output]}" and "${job.input}" would both be written to "${job.output}". ` +
+            `Use placeholders such as {name} in the output to tell them apart.`);
+        }
+
+        inputsByOutput[output] = job.input;
+    }
+}
+
+/**
+ * Runs jobs a few at a time. A job failing doesn't stop the others.
+ * @param jobs The jobs.
+ * @param concurrency How many jobs run at once.
+ * @param runJob Runs one job.
+ * @returns How each job went, in the order of the jobs.
+ */
+export async function RunBatch(jobs: BatchJob[], concurrency: number, runJob: BatchJobRunner): Promise<BatchResult[]> {
+    const results: BatchResult[] = new Array(jobs.length);
+    let nextIndex = 0;
+    const RunNext = async function() {
+        while (nextIndex < jobs.length) {
+            const index = nextIndex++;
+            const job = jobs[index];
+            const startTime = Date.now();
+            let result: GenerateResult = null;
+            let error: Error = null;
+            try {
+                result = await runJob(job);
+            }
+            catch (e) {
+                error = (e instanceof Error ? e : new Error(String(e)));
+            }
+
+            results[index] = { job, result, error, time: (Date.now() - startTime) / 1000 };
+        }
+    };
+
+    const runners: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(concurrency, jobs.length); ++i) {
+        runners.push(RunNext());
+    }
+
+    await Promise.all(runners);
+    return results;
+}
+
+/**
+ * Formats how the jobs of a batch went as a table.
+ * @param results How each job went.
+ */
+export function FormatBatchSummary(results: BatchResult[]): string {
+    const rows = [['Status', 'Input', 'Output', 'Time', 'Details']];
+    for (let { job, result, error, time } of results) {
+        rows.push([
+            (error ? 'FAILED' : 'OK'),
+            job.input,
+            job.output,
+            time.toFixed(1) + 's',
+            (error ? error.message.split('\n')[0] : `${result.frames} frames`)
+        ]);
+    }
+
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    const lines = rows.map((row) => row.map((cell, column) => (column < row.length - 1 ? cell.padEnd(widths[column]) : cell)).join('  '));
+    lines.splice(1, 0, widths.map((width) => '-'.repeat(width)).join('  '));
+
+    const failed = results.filter((result) => result.error).length;
+    lines.push('', `${results.length - failed} succeeded, ${failed} failed.`);
+    return lines.join('\n');
+}
@@ -18,63 +18,202 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { createCanvas, loadImage, JPEGStream, PNGStream, Canvas } from 'canvas';
-import * as child from 'child_process';
-import { RgbToHexString } from './color';
+import { createCanvas, ImageData, loadImage, Canvas, Image } from '@napi-rs/canvas';
+import { EventEmitter } from 'events';
+import { AbortError, AbortSignalLike } from './abort';
+import { Color } from './color';
+import { CompositeTask, CompositorSettings, FrameCompositor } from './compositor';
+import { CompositeFrame, EffectFactory, EffectName, EffectPhase, EFFECT_NAMES, FrameHistory } from './effects';
+import { GetContainerDefaults, GetDefaultPixelFormat, GetFormatArgs, GetVideoEncoderArgs, IsImageSequence, ValidateEncoderSettings } from './encoder';
+import { FfmpegFrameSink, FfmpegFrameSource } from './ffmpegframes';
+import { DesaturateMode } from './filters';
 import * as fs from 'fs';
+import { FrameCodec, FrameSink, FrameSource, FRAME_CODECS } from './frames';
+import { FrameGeometry, FrameState } from './frozenarea';
 import { Rectangle, Size } from './geom';
+import { DashPattern, Dimension } from './linestyle';
+import * as path from 'path';
+import { GetFfprobePath, MediaInfo } from './probe';
+import { RegionSweep, ResolveRegionRect, SweepRegion } from './region';
+import { ImageSequence, IsDirectImage, IsSequencePattern } from './sequence';
+import { ImageSequenceFrameSink, ImageSequenceFrameSource } from './sequenceframes';
+import { SidecarFormat, SidecarWriter, SIDECAR_FORMATS } from './sidecar';
+import { IsStdio, RemoveTempFile, SpoolToTempFile } from './stdio';
+import { CreateSweepShape, SweepShapeName, SWEEP_SHAPE_NAMES } from './sweep';
+import { Keyframe, ParseEasing, SweepCurve, ValidateKeyframes } from './timing';
+import { GetTransferList, WorkerPool } from './workerpool';
 
 /**
- * Magic number for JPEG files.
+ * A line direction.
  */
-const JPEG_FILE_MAGIC_NUMBER = new Uint8Array([0xff, 0xd8, 0xff]);
+type LineDirection = ('left' | 'right' | 'up' | 'down');
 
 /**
- * Magic number for PNG files.
+ * The angle of the line for each of the line directions, in degrees clockwise
+ * from going right.
  */
-const PNG_FILE_MAGIC_NUMBER = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+const LINE_DIRECTION_ANGLES = {
+    right: 0,
+    down: 90,
+    left: 180,
+    up: 270
+};
 
 /**
- * A codec for exporting frames.
+ * Where the audio of the output comes from. 'keep' uses the audio of the input,
+ * 'none' drops it and anything else is the path of an audio file to use
+ * instead.
  */
-type FrameCodec = ('mjpeg' | 'png');
+type AudioSource = ('keep' | 'none' | string);
 
 /**
- * A line direction.
+ * A length of the effect in seconds, or 'auto' to sweep across the whole
+ * input.
  */
-type LineDirection = ('left' | 'right' | 'up' | 'down');
+type EffectLength = (number | 'auto');
+
+/**
+ * What happens after the sweep ends. 'hold' keeps the frozen result, 'crossfade'
+ * fades it back to the live video and 'cut' goes straight to the live video.
+ */
+type TailMode = ('hold' | 'crossfade' | 'cut');
+
+/**
+ * What the line does. 'freeze' freezes what it passes, 'reveal' starts frozen
+ * and uncovers live video as it passes and 'ping-pong' sweeps across freezing
+ * then back releasing.
+ */
+type EffectMode = ('freeze' | 'reveal' | 'ping-pong');
+
+/**
+ * What gets written out. 'video' is the finished effect, 'overlay' is only the
+ * line on a transparent background and 'matte' is the frozen area in white on
+ * black.
+ */
+type ExportMode = ('video' | 'overlay' | 'matte');
 
 export interface BlueLineGeneratorOptions {
     /**
-     * Input file.
+     * Input file. May also be a pattern for an image sequence such as
+     * "shot_%04d.png", a directory of numbered images or "-" for stdin.
      */
     input: string;
 
     /**
-     * Output file.
+     * Output file. May also be a pattern for an image sequence such as
+     * "frames/out_%04d.png", or "-" for stdout.
      */
     output: string;
 
+    /**
+     * Where the frames come from instead of the input. The input isn't needed
+     * when this is set.
+     */
+    frameSource?: FrameSource;
+
+    /**
+     * Where the frames go instead of the output. The output still names the
+     * sidecar files.
+     */
+    frameSink?: FrameSink;
+
+    /**
+     * The FFmpeg name of the format of the output, such as matroska or mp4.
+     * Defaults to the one picked by the extension of the output, and is needed
+     * when writing to stdout.
+     */
+    format: string;
+
     /**
      * The path to FFmpeg.
      */
     ffmpegPath: string;
 
     /**
-     * Largest number of bytes on stdout when running FFmpeg.
+     * The path to FFprobe.
      */
-    maxBuffer: number;
+    ffprobePath: string;
 
     /**
-     * Length of the effect in seconds.
+     * Length of the effect in seconds. Defaults to the default length or the
+     * duration of the input, whichever is shorter.
      */
-    length: number;
+    length: EffectLength;
 
     /**
      * The direction the line goes.
      */
     lineDirection: LineDirection;
 
+    /**
+     * The angle the line goes in degrees clockwise from going right. Overrides
+     * the line direction when set. For the clock shape it's where the ray
+     * starts, clockwise from 12 o'clock.
+     */
+    angle: number;
+
+    /**
+     * What the line does.
+     */
+    mode: EffectMode;
+
+    /**
+     * How the frozen area is composited.
+     */
+    effect: EffectName;
+
+    /**
+     * Creates the effect instead of the one named by the effect option.
+     */
+    createEffect?: EffectFactory;
+
+    /**
+     * How many frames back the slit-scan effect reaches at the far side of a
+     * region.
+     */
+    slitDelay: number;
+
+    /**
+     * Number of threads compositing and encoding frames. Custom effects always
+     * run on one.
+     */
+    jobs: number;
+
+    /**
+     * Path to an image the reveal mode starts frozen on instead of the first
+     * frame of the sweep. It's stretched to the size of the input.
+     */
+    still: string;
+
+    /**
+     * The shape of the sweep.
+     */
+    sweepShape: SweepShapeName;
+
+    /**
+     * Boxes of the frame that sweep on their own while the rest plays
+     * normally. Defaults to the whole frame. They can't overlap.
+     */
+    regions: SweepRegion[];
+
+    /**
+     * The easing of the line's movement, either a preset name or
+     * "cubic-bezier(x1, y1, x2, y2)".
+     */
+    easing: string;
+
+    /**
+     * Positions of the line over time. The length of the effect defaults to the
+     * time of the last one.
+     */
+    keyframes: Keyframe[];
+
+    /**
+     * Width in pixels of the soft edge between the frozen and live regions. 0
+     * keeps the edge sharp.
+     */
+    feather: number;
+
     /**
      * The codec to use for exporting frames.
      */
@@ -83,396 +222,1481 @@ export interface BlueLineGeneratorOptions {
     /**
      * The color of the line.
      */
-    lineColor: Uint8Array;
+    lineColor: Color;
 
     /**
-     * The framerate of the target video.
+     * The thickness of the line. Defaults to 8 pixels at 1080p, scaled to the
+     * size of the input.
      */
-    fps: number;
-}
+    lineWidth: Dimension;
 
-export class BlueLineGenerator {
     /**
-     * The max buffer size for stdout when extracting frames from FFmpeg.
+     * How far the glow of the line spreads. Defaults to 15 pixels at 1080p,
+     * scaled to the size of the input.
      */
-    public static readonly DEFAULT_MAX_BUFFER = 1024 * 1024 * 50;
+    glowRadius: Dimension;
 
     /**
-     * The default color of the blue line which is obviously blue.
+     * How strong the glow is. 1 is normal, 0 turns it off and higher values
+     * stack it.
      */
-    public static readonly DEFAULT_LINE_COLOR = new Uint8Array([0, 194, 203]);
+    glowStrength: number;
 
     /**
-     * The default length of the effect.
+     * The colour of the glow. Defaults to the colour of the line.
      */
-    public static readonly DEFAULT_LENGTH = 10;
+    glowColor: Color;
 
     /**
-     * The default codec to use for exporting frames.
+     * Colours the line fades through from one end to the other, replacing the
+     * colour of the line.
      */
-    public static readonly DEFAULT_FRAME_CODEC: FrameCodec = 'mjpeg';
+    lineGradient: Color[];
 
     /**
-     * The default direction the line moves.
+     * The dash pattern of the line.
      */
-    public static readonly DEFAULT_LINE_DIRECTION: LineDirection = 'right';
+    lineDash: DashPattern;
 
-    public static readonly DEFAULT_FRAMERATE = 25.0;
+    /**
+     * The thickness of a halo around the line on each side. 0 turns it off.
+     */
+    haloWidth: Dimension;
 
     /**
-     * The options of the generator.
+     * The colour of the halo. Defaults to a lighter, half transparent version
+     * of the colour of the line.
      */
-    private options: BlueLineGeneratorOptions;
+    haloColor: Color;
 
     /**
-     * Total frames calculated for the effect.
+     * Colour to tint the frozen region with. Its alpha is how strong the tint
+     * is.
      */
-    private totalFrames: number;
+    tint: Color;
 
     /**
-     * The frame images exported by FFmpeg.
+     * Takes the colour out of the frozen region, leaving grey or sepia.
      */
-    private frameImages: Buffer[];
+    desaturate: DesaturateMode;
 
     /**
-     * The canvas that does the freeze effect.
+     * How much to desaturate the frozen region in the range of 0-1.
      */
-    private effectCanvas: Canvas;
+    desaturateAmount: number;
 
     /**
-     * The canvas that gets output to FFmpeg. Basically just effectCanvas with a
-     * line.
+     * What to multiply the brightness of the frozen region by. 1 leaves it
+     * unchanged.
      */
-    private outputCanvas: Canvas;
+    brightness: number;
 
     /**
-     * The current frame being processed for output.
+     * What to multiply the contrast of the frozen region by. 1 leaves it
+     * unchanged.
      */
-    private currentFrameNum: number;
+    contrast: number;
 
     /**
-     * The FFmpeg process for output.
+     * Radius of a Gaussian blur of the frozen region. 0 turns it off.
      */
-    private ffmpegProc: child.ChildProcess;
+    blur: Dimension;
 
     /**
-     * The rectangle that crops the frames.
+     * How dark the corners of the frozen region get in the range of 0-1.
      */
-    private cropRect: Rectangle;
+    vignette: number;
 
     /**
-     * The size the crop rectangle shrinks every frame.
+     * Whether the treatment of the frozen region fades in as the sweep
+     * progresses instead of being at full strength from the start.
      */
-    private cropRectShrinkSize: Size;
+    treatmentFadeIn: boolean;
 
     /**
-     * Function used for handling errors for asynchronous methods.
+     * What gets written out.
      */
-    private errorHandler: Function;
+    exportMode: ExportMode;
 
-    private readonly bindedEffectErrorHandler = this.OnEffectError.bind(this);
+    /**
+     * Formats of sidecar files written next to the output, listing where the
+     * line was on every frame.
+     */
+    sidecar: SidecarFormat[];
 
-    constructor(options: BlueLineGeneratorOptions, errorHandler: Function) {
-        if (!options.input) {
-            throw new Error('No input specified.');
-        }
+    /**
+     * The FFmpeg name of the video codec of the output. Defaults to the one
+     * for the container picked by the extension of the output.
+     */
+    videoCodec: string;
 
-        if (!options.output) {
-            throw new Error('No output specified.');
-        }
+    /**
+     * The constant rate factor of the output, where lower is better quality.
+     * Defaults to the one of the codec.
+     */
+    crf: number;
 
-        if (!options.ffmpegPath) {
-            options.ffmpegPath = 'ffmpeg';
-        }
+    /**
+     * The target bitrate of the output, such as "8M".
+     */
+    bitrate: string;
 
-        if (!options.maxBuffer) {
-            options.maxBuffer = BlueLineGenerator.DEFAULT_MAX_BUFFER;
-        }
+    /**
+     * The speed preset of the encoder, such as "slow".
+     */
+    preset: string;
 
-        if (!options.frameCodec || ['mjpeg', 'png'].indexOf(options.frameCodec) === -1) {
-            options.frameCodec = BlueLineGenerator.DEFAULT_FRAME_CODEC;
-        }
+    /**
+     * The pixel format of the output. Defaults to yuv420p, which every player
+     * supports, or the one the codec needs.
+     */
+    pixelFormat: string;
 
-        if (!options.length) {
-            options.length = BlueLineGenerator.DEFAULT_LENGTH;
-        }
+    /**
+     * The framerate of the target video. Defaults to the framerate of the
+     * input.
+     */
+    fps: number;
 
-        if (!options.lineColor) {
-            options.lineColor = BlueLineGenerator.DEFAULT_LINE_COLOR;
-        }
+    /**
+     * Where the audio of the output comes from.
+     */
+    audio: AudioSource;
 
-        if (!options.lineDirection || ['left', 'right', 'up', 'down'].indexOf(options.lineDirection) === -1) {
-            options.lineDirection = BlueLineGenerator.DEFAULT_LINE_DIRECTION;
-        }
+    /**
+     * Time in seconds into the input where the sweep starts.
+     */
+    start: number;
 
-        if (!options.fps) {
-            options.fps = BlueLineGenerator.DEFAULT_FRAMERATE;
-        }
+    /**
+     * Seconds of untouched video before the sweep, taken from before the start.
+     */
+    leadIn: number;
 
-        this.options = options;
-        this.errorHandler = errorHandler;
-    }
+    /**
+     * Seconds of video after the sweep, or 'auto' for the rest of the input.
+     */
+    tail: EffectLength;
 
     /**
-     * Generates the effect and outputs a video.
+     * What happens to the frozen result during the tail in freeze mode. The
+     * other modes keep going with the line where it stopped.
      */
-    public Generate() {
-        if (!fs.existsSync(this.options.input)) {
-            throw new Error('Input file does not exist.');
-        }
+    tailMode: TailMode;
 
-        this.totalFrames = Math.ceil(this.options.fps * this.options.length);
-        child.execFile(
-            this.options.ffmpegPath,
-            [
-                '-i', this.options.input,                       // Input.
-                '-f', 'image2pipe',                             // Force output format.
-                '-c:v', this.options.frameCodec,                // Output codec.
-                '-r', this.options.fps.toString(),              // Force output framerate.
-                '-frames:v', this.totalFrames.toString(),       // Number of frames to extract.
-                '-loglevel', 'error',                           // Log level.
-                '-'
-            ],
-            { maxBuffer: this.options.maxBuffer, encoding: 'buffer' },
-            this.OnFfmpegFramesOutputFinished.bind(this)
-        );
-
-        this.currentFrameNum = 0;
-    }
+    /**
+     * Length of the crossfade in seconds when the tail mode is 'crossfade'.
+     */
+    crossfade: number;
+}
+
+/**
+ * What the generator is doing.
+ */
+export type GenerateStage = ('reading' | 'probing' | 'rendering' | 'finishing');
 
+/**
+ * How far the generator has got.
+ */
+export interface GenerateProgress {
     /**
-     * Gets the next frame and increases the pointer.
-     * @returns Image buffer or null if no frames are left.
+     * What the generator is doing.
      */
-    private GetNextFrame(): Buffer {
-        if (this.currentFrameNum >= this.frameImages.length) {
-            return null;
-        }
+    stage: GenerateStage;
 
-        return this.frameImages[this.currentFrameNum++];
-    }
+    /**
+     * The number of frames written so far.
+     */
+    frame: number;
 
     /**
-     * Callback for when FFmpeg finishes outputting the frames of a video.
-     * @param resolve Callback for resolving a promise.
-     * @param reject Callback for rejecting a promise.
-     * @param error Error if one occured.
-     * @param stdout Normal output.
-     * @param stderr Error output.
+     * The number of frames in the output, or 0 before it's known.
      */
-    private OnFfmpegFramesOutputFinished(error: child.ExecException, stdout: Buffer, stderr: Buffer) {
-        if (error) {
-            throw error;
-        }
+    totalFrames: number;
 
-        this.frameImages = [];
-        let magicNumber = (this.options.frameCodec === 'mjpeg' ? JPEG_FILE_MAGIC_NUMBER : PNG_FILE_MAGIC_NUMBER);
-        let startIndex = stdout.indexOf(magicNumber, 0, 'binary');
-        let endIndex = stdout.indexOf(magicNumber, startIndex + magicNumber.length, 'binary');
-        while (startIndex !== -1) {
-            if (endIndex !== -1) {
-                // Found the start of another image.
-                this.frameImages.push(stdout.slice(startIndex, endIndex));
-                startIndex = endIndex;
-                endIndex = stdout.indexOf(magicNumber, endIndex + magicNumber.length, 'binary');
-            }
-            else {
-                // No more images.
-                this.frameImages.push(stdout.slice(startIndex));
-                break;
-            }
-        }
+    /**
+     * How much of the output has been written in the range of 0-1.
+     */
+    fraction: number;
+}
 
-        if (this.frameImages.length < this.totalFrames) {
-            this.errorHandler(`Not enough frames were exported to fulfill the length of the effect. Expected ${this.totalFrames} but got ${this.frameImages.length}.\n` +
-            `Specify effect length with the -l argument.`);
-        }
+/**
+ * How long each part of generating took, in seconds.
+ */
+export interface GenerateTimings {
+    /**
+     * Reading and probing the input.
+     */
+    probe: number;
 
-        console.log('Frames extracted: ' + this.frameImages.length);
-        this.DoEffect().catch(this.OnEffectError.bind(this));
-    }
+    /**
+     * Creating the frames of the output.
+     */
+    render: number;
 
     /**
-     * Creates the effect and feeds the frames to FFmpeg.
+     * Everything, including waiting for FFmpeg to finish the output.
      */
-    private async DoEffect() {
-        console.log('Creating effect...');
-        this.ffmpegProc = child.execFile(
-            this.options.ffmpegPath,
-            [
-                '-y',                                   // Overwrite existing output.
-                '-f', 'image2pipe',                     // Force input format.
-                '-r', this.options.fps.toString(),      // Force input framerate.
-                '-c:v', this.options.frameCodec,        // Input codec.
-                '-i', '-',                              // Input.
-                '-c:v', 'libx264',                      // Output codec.
-                '-r', this.options.fps.toString(),      // Force output framerate.
-                this.options.output,                    // Output.
-            ],
-            { encoding: 'binary' },
-            this.OnFfmpegEffectFinished.bind(this)
-        );
-        this.ffmpegProc.stdin.on('error', this.bindedEffectErrorHandler);
-
-        // Create the canvas for the effect.
-        this.effectCanvas = createCanvas(0, 0);
-
-        // A second canvas with the line so we can restore after outputting.
-        this.outputCanvas = createCanvas(0, 0);
-
-        this.cropRect = new Rectangle();
-        this.cropRectShrinkSize = new Size();
-
-        this.DoEffectSingleFrame(this.GetNextFrame());
-    }
+    total: number;
+}
 
+/**
+ * What was generated.
+ */
+export interface GenerateResult {
     /**
-     * Processes and outputs a single frame.
+     * The path of the output, or "-" for stdout.
      */
-    private async DoEffectSingleFrame(frame: Buffer) {
-        if (!frame) {
-            // Null frame, we're done here.
-            this.ffmpegProc.stdin.end();
-            return;
-        }
+    output: string;
 
-        console.info('Frame #' + this.currentFrameNum);
-        const effectContext = this.effectCanvas.getContext('2d');
-        const outputContext = this.outputCanvas.getContext('2d');
-        const cropRect = this.cropRect;
-        const cropRectShrinkSize = this.cropRectShrinkSize;
+    /**
+     * The number of frames in the output.
+     */
+    frames: number;
 
-        const image = await loadImage(frame);
-        if (this.effectCanvas.width === 0) {
-            // We can set the canvases to the proper size now.
-            this.effectCanvas.width = image.width;
-            this.effectCanvas.height = image.height;
-            this.outputCanvas.width = image.width;
-            this.outputCanvas.height = image.height;
-
-            // Set the stroke properties here because it resets when you set
-            // the canvas dimensions..
-            const lineColor = this.options.lineColor;
-            outputContext.strokeStyle = '#' + RgbToHexString(lineColor[0], lineColor[1], lineColor[2]);
-            outputContext.lineWidth = 8;
-            outputContext.shadowColor = outputContext.strokeStyle;
-            outputContext.shadowBlur = 15;
-
-            cropRect.Size = new Size(image.width, image.height);
-            switch (this.options.lineDirection) {
-                case 'left':
-                case 'right': {
-                    cropRectShrinkSize.Width = Math.ceil(image.width / this.totalFrames);
-                    break;
-                }
-                case 'up':
-                case 'down': {
-                    cropRectShrinkSize.Height = Math.ceil(image.height / this.totalFrames);
-                    break;
-                }
-            }
-        }
+    /**
+     * The paths of the sidecar files written next to the output.
+     */
+    sidecars: string[];
 
-        effectContext.drawImage(
-            image,              // Image.
-            cropRect.X,         // Clip X.
-            cropRect.Y,         // Clip Y.
-            cropRect.Width,     // Clip width.
-            cropRect.Height,    // Clip height.
-            cropRect.X,         // Destination X.
-            cropRect.Y,         // Destination Y.
-            cropRect.Width,     // Destination width.
-            cropRect.Height     // Destination height.
-        );
-
-        // Clear the old context with the line, and redraw the other canvas.
-        outputContext.clearRect(0, 0, this.outputCanvas.width, this.outputCanvas.width);
-        outputContext.drawImage(this.effectCanvas, 0, 0);
-
-        outputContext.beginPath();
-        switch (this.options.lineDirection) {
-            case 'left': {
-                outputContext.moveTo(cropRect.Width, 0);
-                outputContext.lineTo(cropRect.Width, cropRect.Height);
-                break;
-            }
-            case 'right': {
-                outputContext.moveTo(cropRect.X, 0);
-                outputContext.lineTo(cropRect.X, cropRect.Height);
-                break;
-            }
-            case 'up': {
-                outputContext.moveTo(0, cropRect.Height);
-                outputContext.lineTo(cropRect.Width, cropRect.Height);
-                break;
-            }
-            case 'down': {
-                outputContext.moveTo(0, cropRect.Y);
-                outputContext.lineTo(cropRect.Width, cropRect.Y);
-                break;
-            }
-        }
+    /**
+     * How long each part of generating took.
+     */
+    timings: GenerateTimings;
+}
 
-        outputContext.closePath();
-        outputContext.stroke();
+/**
+ * The events emitted while generating, and their listeners.
+ */
+export interface BlueLineGeneratorEvents {
+    /**
+     * Emitted when a stage starts and after every frame.
+     */
+    progress: (progress: GenerateProgress) => void;
 
-        let stream: JPEGStream | PNGStream;
-        if (this.options.frameCodec === 'mjpeg') {
-            stream = this.outputCanvas.createJPEGStream({ quality: 100 });
-        }
-        else {
-            stream = this.outputCanvas.createPNGStream();
-        }
+    /**
+     * Emitted after a frame is written.
+     */
+    frame: (frameNum: number, totalFrames: number) => void;
 
-        const instance = this;
-        stream.on('error', this.bindedEffectErrorHandler);
-        stream.on('close', function() {
-            instance.DoEffectSingleFrame(instance.GetNextFrame());
-        });
+    /**
+     * Emitted for problems that don't stop the output from being made.
+     */
+    warning: (message: string) => void;
 
-        this.ffmpegProc.stdin.write(stream.read());
+    /**
+     * Emitted once the output is finished.
+     */
+    done: (result: GenerateResult) => void;
 
-        switch (this.options.lineDirection) {
-            case 'left': {
-                cropRect.Width -= cropRectShrinkSize.Width;
-                break;
-            }
-            case 'right': {
-                cropRect.Width -= cropRectShrinkSize.Width;
-                cropRect.X += cropRectShrinkSize.Width;
-                break;
-            }
-            case 'up': {
-                cropRect.Height -= cropRectShrinkSize.Height;
-                break;
-            }
-            case 'down': {
-                cropRect.Height -= cropRectShrinkSize.Height;
-                cropRect.Y += cropRectShrinkSize.Height;
-                break;
-            }
-        }
-    }
+    /**
+     * Emitted when generating fails or is aborted, once whatever was written
+     * has been removed and just before Generate() rejects with the same error.
+     * It's only emitted while something listens, so it doesn't throw.
+     */
+    error: (error: Error) => void;
+}
+
+export declare interface BlueLineGenerator {
+    on<E extends keyof BlueLineGeneratorEvents>(event: E, listener: BlueLineGeneratorEvents[E]): this;
+    once<E extends keyof BlueLineGeneratorEvents>(event: E, listener: BlueLineGeneratorEvents[E]): this;
+    off<E extends keyof BlueLineGeneratorEvents>(event: E, listener: BlueLineGeneratorEvents[E]): this;
+    emit<E extends keyof BlueLineGeneratorEvents>(event: E, ...args: Parameters<BlueLineGeneratorEvents[E]>): boolean;
+}
 
+export class BlueLineGenerator extends EventEmitter {
     /**
-     * Callback for when FFmpeg has finished producing the effect video.
+     * The default color of the blue line which is obviously blue.
      */
-    private OnFfmpegEffectFinished(error?:child.ExecException, stdout?: Buffer, stderr?: Buffer) {
-        if (error) {
-            this.errorHandler(error);
-        }
+    public static readonly DEFAULT_LINE_COLOR = new Color(0, 194, 203);
 
-        this.ffmpegProc.stdin.end();
-        console.log(`Output to "${this.options.output}"`);
-    }
+    /**
+     * The default thickness of the line in pixels at 1080p.
+     */
+    public static readonly DEFAULT_LINE_WIDTH = 8;
 
     /**
-     * Callback for any other errors during the producing of the effect.
+     * The default glow radius of the line in pixels at 1080p.
      */
-    private OnEffectError(error: Error) {
-        if (error) {
-            this.ffmpegProc.stdin.end();
-            this.errorHandler(error);
+    public static readonly DEFAULT_GLOW_RADIUS = 15;
+
+    /**
+     * The default strength of the glow.
+     */
+    public static readonly DEFAULT_GLOW_STRENGTH = 1;
+
+    /**
+     * The default length of the effect.
+     */
+    public static readonly DEFAULT_LENGTH = 10;
+
+    /**
+     * The default codec to use for exporting frames.
+     */
+    public static readonly DEFAULT_FRAME_CODEC: FrameCodec = 'rawvideo';
+
+    /**
+     * The default direction the line moves.
+     */
+    public static readonly DEFAULT_LINE_DIRECTION: LineDirection = 'right';
+
+    /**
+     * The default mode of the effect.
+     */
+    public static readonly DEFAULT_MODE: EffectMode = 'freeze';
+
+    /**
+     * The default effect.
+     */
+    public static readonly DEFAULT_EFFECT: EffectName = 'blueline';
+
+    /**
+     * The default number of frames the slit-scan effect reaches back.
+     */
+    public static readonly DEFAULT_SLIT_DELAY = 30;
+
+    /**
+     * The default number of threads compositing and encoding frames.
+     */
+    public static readonly DEFAULT_JOBS = 1;
+
+    /**
+     * The default of what gets written out.
+     */
+    public static readonly DEFAULT_EXPORT_MODE: ExportMode = 'video';
+
+    /**
+     * The default shape of the sweep.
+     */
+    public static readonly DEFAULT_SWEEP_SHAPE: SweepShapeName = 'line';
+
+    /**
+     * The default easing of the line's movement.
+     */
+    public static readonly DEFAULT_EASING = 'linear';
+
+    public static readonly DEFAULT_FRAMERATE = 25.0;
+
+    /**
+     * The default source of the output's audio.
+     */
+    public static readonly DEFAULT_AUDIO: AudioSource = 'keep';
+
+    /**
+     * The default tail mode.
+     */
+    public static readonly DEFAULT_TAIL_MODE: TailMode = 'hold';
+
+    /**
+     * The default length of the crossfade in seconds.
+     */
+    public static readonly DEFAULT_CROSSFADE = 1.0;
+
+    /**
+     * The options of the generator.
+     */
+    private options: BlueLineGeneratorOptions;
+
+    /**
+     * Information about the input found by probing it.
+     */
+    private mediaInfo: MediaInfo;
+
+    /**
+     * Length of the effect in seconds once it has been resolved.
+     */
+    private length: number;
+
+    /**
+     * Total frames calculated for the effect.
+     */
+    private totalFrames: number;
+
+    /**
+     * Number of untouched frames before the sweep.
+     */
+    private leadInFrames: number;
+
+    /**
+     * Number of frames after the sweep.
+     */
+    private tailFrames: number;
+
+    /**
+     * Number of frames the crossfade lasts.
+     */
+    private crossfadeFrames: number;
+
+    /**
+     * The size of the frames. Only known ahead of time for raw frames.
+     */
+    private frameSize: Size;
+
+    /**
+     * The canvas that gets output to the sink. The frame the effect composited
+     * with a line.
+     */
+    private outputCanvas: Canvas;
+
+    /**
+     * Composites the frames.
+     */
+    private compositor: FrameCompositor;
+
+    /**
+     * The threads compositing and encoding frames, or null if they're done on
+     * this one.
+     */
+    private pool: WorkerPool<CompositorSettings, CompositeTask, Uint8Array> = null;
+
+    /**
+     * Frames sent to the pool that haven't been written yet, in order.
+     */
+    private queuedFrames: Promise<Uint8Array>[] = [];
+
+    /**
+     * The latest frames of the input the effect looks back at.
+     */
+    private history: FrameHistory;
+
+    /**
+     * The image the reveal mode starts frozen on.
+     */
+    private stillImage: Image;
+
+    /**
+     * The path the input is read from. Input from stdin is copied to a
+     * temporary file first so it can be probed and read more than once.
+     */
+    private inputPath: string;
+
+    /**
+     * The temporary file holding the input from stdin, or null if it isn't
+     * from stdin.
+     */
+    private spoolPath: string = null;
+
+    /**
+     * The images of the input when it's an image sequence, or null if it's a
+     * video.
+     */
+    private inputSequence: ImageSequence = null;
+
+    /**
+     * Whether the output is an image sequence written without FFmpeg.
+     */
+    private writeFramesDirectly = false;
+
+    /**
+     * Where the frames of the input come from.
+     */
+    private source: FrameSource;
+
+    /**
+     * Where the frames of the output go.
+     */
+    private sink: FrameSink;
+
+    /**
+     * The current frame being processed for output.
+     */
+    private currentFrameNum: number;
+
+    /**
+     * Number of frames written to the sink. Behind the current frame while
+     * frames are being composited on other threads.
+     */
+    private framesWritten: number;
+
+    /**
+     * The area of the frames.
+     */
+    private frameRect: Rectangle;
+
+    /**
+     * The sweeps of each region.
+     */
+    private sweeps: RegionSweep[];
+
+    /**
+     * Collects where the line was on every frame for the sidecar files.
+     */
+    private sidecarWriter: SidecarWriter;
+
+    /**
+     * The audio codec of the output's container, or null if it has no audio.
+     */
+    private audioCodec: string;
+
+    /**
+     * Whether the effect is being generated.
+     */
+    private running = false;
+
+    /**
+     * The error that stopped the generator, or null if nothing has gone wrong.
+     */
+    private failure: Error = null;
+
+    /**
+     * Rejects the run with the error that stopped it.
+     */
+    private rejectRun: (error: Error) => void;
+
+    private readonly bindedEffectErrorHandler = this.OnEffectError.bind(this);
+
+    constructor(options: BlueLineGeneratorOptions) {
+        super();
+        if (!options.input && !options.frameSource) {
+            throw new Error('No input specified.');
+        }
+
+        if (!options.output) {
+            throw new Error('No output specified.');
+        }
+
+        if (!options.ffmpegPath) {
+            options.ffmpegPath = 'ffmpeg';
+        }
+
+        if (!options.ffprobePath) {
+            options.ffprobePath = GetFfprobePath(options.ffmpegPath);
+        }
+
+        if (!options.frameCodec || FRAME_CODECS.indexOf(options.frameCodec) === -1) {
+            options.frameCodec = BlueLineGenerator.DEFAULT_FRAME_CODEC;
+        }
+
+        if (!options.lineColor) {
+            options.lineColor = BlueLineGenerator.DEFAULT_LINE_COLOR;
+        }
+
+        if (typeof options.glowStrength !== 'number' || !(options.glowStrength >= 0)) {
+            options.glowStrength = BlueLineGenerator.DEFAULT_GLOW_STRENGTH;
+        }
+
+        if (!options.lineDash) {
+            options.lineDash = 'solid';
+        }
+
+        if (!options.lineDirection || ['left', 'right', 'up', 'down'].indexOf(options.lineDirection) === -1) {
+            options.lineDirection = BlueLineGenerator.DEFAULT_LINE_DIRECTION;
+        }
+
+        if (typeof options.angle !== 'number' || !isFinite(options.angle)) {
+            options.angle = LINE_DIRECTION_ANGLES[options.lineDirection];
+        }
+
+        if (!options.mode || ['freeze', 'reveal', 'ping-pong'].indexOf(options.mode) === -1) {
+            options.mode = BlueLineGenerator.DEFAULT_MODE;
+        }
+
+        if (options.still && options.mode !== 'reveal') {
+            throw new Error('A still image can only be used in reveal mode.');
+        }
+
+        if (!options.effect || EFFECT_NAMES.indexOf(options.effect) === -1) {
+            options.effect = BlueLineGenerator.DEFAULT_EFFECT;
+        }
+
+        if (options.still && (options.effect !== 'blueline' || options.createEffect)) {
+            throw new Error('A still image can only be used with the blueline effect.');
+        }
+
+        if (!options.slitDelay) {
+            options.slitDelay = BlueLineGenerator.DEFAULT_SLIT_DELAY;
+        }
+        else if (!(Number.isInteger(options.slitDelay) && options.slitDelay >= 1)) {
+            throw new Error('The slit-scan delay must be a whole number of frames of at least 1.');
+        }
+
+        if (!options.jobs) {
+            options.jobs = BlueLineGenerator.DEFAULT_JOBS;
+        }
+        else if (!(Number.isInteger(options.jobs) && options.jobs >= 1)) {
+            throw new Error('The number of jobs must be a whole number of at least 1.');
+        }
+
+        if (!options.sweepShape || SWEEP_SHAPE_NAMES.indexOf(options.sweepShape) === -1) {
+            options.sweepShape = BlueLineGenerator.DEFAULT_SWEEP_SHAPE;
+        }
+
+        if (!options.easing) {
+            options.easing = BlueLineGenerator.DEFAULT_EASING;
+        }
+
+        // Check these up front so mistakes show before anything runs.
+        ParseEasing(options.easing);
+        if (options.keyframes) {
+            options.keyframes = ValidateKeyframes(options.keyframes);
+        }
+
+        if (!(options.feather > 0)) {
+            options.feather = 0;
+        }
+
+        if (options.desaturate && ['grey', 'sepia'].indexOf(options.desaturate) === -1) {
+            throw new Error(`Invalid desaturation "${options.desaturate}". Expected grey or sepia.`);
+        }
+
+        if (typeof options.desaturateAmount !== 'number') {
+            options.desaturateAmount = 1;
+        }
+        else if (!(options.desaturateAmount >= 0 && options.desaturateAmount <= 1)) {
+            throw new Error('The desaturation amount must be in the range of 0-1.');
+        }
+
+        if (typeof options.brightness !== 'number') {
+            options.brightness = 1;
+        }
+        else if (!(options.brightness >= 0)) {
+            throw new Error('The brightness must be at least 0.');
+        }
+
+        if (typeof options.contrast !== 'number') {
+            options.contrast = 1;
+        }
+        else if (!(options.contrast >= 0)) {
+            throw new Error('The contrast must be at least 0.');
+        }
+
+        if (typeof options.vignette !== 'number') {
+            options.vignette = 0;
+        }
+        else if (!(options.vignette >= 0 && options.vignette <= 1)) {
+            throw new Error('The vignette must be in the range of 0-1.');
+        }
+
+        if (!options.exportMode || ['video', 'overlay', 'matte'].indexOf(options.exportMode) === -1) {
+            options.exportMode = BlueLineGenerator.DEFAULT_EXPORT_MODE;
+        }
+
+        if (options.exportMode !== 'video') {
+            // Exports are drawn without the input, and JPEG frames can't keep
+            // the transparency of the overlay.
+            options.frameCodec = 'rawvideo';
+        }
+
+        if (IsStdio(options.output) && !options.format) {
+            throw new Error('Writing to stdout needs the format of the output, such as "--format matroska".');
+        }
+
+        if (IsImageSequence(options.output) && !/%\d*d/.test(options.output)) {
+            throw new Error(`Image sequence outputs need a pattern for the frame number, such as "${options.output.replace(/(\.\w+)$/, '_%04d$1')}".`);
+        }
+
+        const alpha = (options.exportMode === 'overlay');
+        const container = GetContainerDefaults(options.output, alpha, options.format) || { videoCodec: null, audioCodec: null };
+        if (!options.videoCodec) {
+            if (!container.videoCodec) {
+                throw new Error('The output can\'t keep the transparency of the overlay. Use a .mov, .webm or .mkv video or a .png sequence, or pick a codec with --vcodec.');
+            }
+
+            options.videoCodec = container.videoCodec;
+        }
+
+        if (!options.pixelFormat) {
+            options.pixelFormat = GetDefaultPixelFormat(options.videoCodec, alpha);
+        }
+
+        ValidateEncoderSettings(options);
+
+        // PNG and JPEG sequences the canvas can write itself skip FFmpeg,
+        // unless the encoding is asked to be different.
+        const hasDefaultEncoding = (options.videoCodec === container.videoCodec &&
+            options.pixelFormat === GetDefaultPixelFormat(container.videoCodec, alpha) &&
+            !options.crf && !options.bitrate && !options.preset);
+        this.writeFramesDirectly = (IsSequencePattern(options.output) && IsDirectImage(options.output) && hasDefaultEncoding);
+
+        if (!options.sidecar) {
+            options.sidecar = [];
+        }
+
+        if (options.sidecar.length > 0 && IsStdio(options.output)) {
+            throw new Error('Sidecar files are named after the output, so they can\'t be written when writing to stdout.');
+        }
+
+        for (let format of options.sidecar) {
+            if (SIDECAR_FORMATS.indexOf(format) === -1) {
+                throw new Error(`Unknown sidecar format "${format}". Expected one of ${SIDECAR_FORMATS.join(', ')}.`);
+            }
+        }
+        this.audioCodec = container.audioCodec;
+
+        if (!options.audio) {
+            options.audio = BlueLineGenerator.DEFAULT_AUDIO;
+        }
+
+        if (!options.start) {
+            options.start = 0;
+        }
+
+        if (!options.leadIn) {
+            options.leadIn = 0;
+        }
+
+        if (!options.tail) {
+            options.tail = 0;
+        }
+
+        if (!options.tailMode || ['hold', 'crossfade', 'cut'].indexOf(options.tailMode) === -1) {
+            options.tailMode = BlueLineGenerator.DEFAULT_TAIL_MODE;
+        }
+
+        if (!options.crossfade) {
+            options.crossfade = BlueLineGenerator.DEFAULT_CROSSFADE;
+        }
+
+        this.options = options;
+    }
+
+    /**
+     * Generates the effect and outputs a video. If it fails or is aborted,
+     * FFmpeg is stopped and whatever was written of the output is removed.
+     * @param signal Aborts generating when signalled.
+     * @returns What was generated.
+     */
+    public async Generate(signal?: AbortSignalLike): Promise<GenerateResult> {
+        if (this.running) {
+            throw new Error('The effect is already being generated.');
+        }
+
+        const input = this.options.input;
+        this.inputSequence = (this.options.frameSource || IsStdio(input) ? null : ImageSequence.Find(input));
+        if (!this.options.frameSource && !this.inputSequence && !IsStdio(input) && !fs.existsSync(input)) {
+            throw new Error('Input file does not exist.');
+        }
+
+        if (this.options.audio !== 'keep' && this.options.audio !== 'none' && !fs.existsSync(this.options.audio)) {
+            throw new Error('Audio file does not exist.');
+        }
+
+        if (this.options.still && !fs.existsSync(this.options.still)) {
+            throw new Error('Still image does not exist.');
+        }
+
+        if (signal && signal.aborted) {
+            throw new AbortError();
+        }
+
+        this.running = true;
+        this.source = null;
+        this.sink = null;
+        this.failure = null;
+        const failed = new Promise<never>((resolve, reject) => this.rejectRun = reject);
+        const OnAbort = () => this.OnEffectError(new AbortError());
+        if (signal) {
+            signal.addEventListener('abort', OnAbort);
+        }
+
+        try {
+            const result = await Promise.race([this.Run(), failed]);
+            this.emit('done', result);
+            return result;
+        }
+        catch (error) {
+            this.OnEffectError(error);
+            await this.CleanUp();
+            if (this.listenerCount('error') > 0) {
+                this.emit('error', error);
+            }
+
+            throw error;
+        }
+        finally {
+            if (signal) {
+                signal.removeEventListener('abort', OnAbort);
+            }
+
+            this.RemoveSpooledInput();
+            this.running = false;
+        }
+    }
+
+    /**
+     * Extracts the frames and creates the effect.
+     */
+    private async Run(): Promise<GenerateResult> {
+        const startTime = Date.now();
+        this.currentFrameNum = this.framesWritten = 0;
+        this.leadInFrames = this.totalFrames = this.tailFrames = 0;
+        this.inputPath = this.options.input;
+        if (IsStdio(this.options.input)) {
+            this.EmitProgress('reading');
+            this.inputPath = this.spoolPath = await SpoolToTempFile(process.stdin);
+        }
+
+        this.EmitProgress('probing');
+        this.source = this.options.frameSource || this.CreateFrameSource();
+        this.mediaInfo = await this.source.Probe();
+        this.ResolveOptions();
+        if (this.options.still) {
+            this.stillImage = await loadImage(this.options.still);
+        }
+
+        this.frameSize = new Size(this.mediaInfo.width, this.mediaInfo.height);
+        const probeTime = Date.now();
+
+        const audio = this.options.audio;
+        if (audio !== 'keep' && audio !== 'none' && this.GetAudioArgs().indexOf(audio) === -1) {
+            this.emit('warning', `The output can't have audio, so "${audio}" isn't used.`);
+        }
+
+        if (this.options.exportMode === 'video') {
+            this.source.Start(this.GetFirstFrameTime(), this.options.fps, this.GetOutputFrameCount());
+        }
+
+        await this.DoEffect();
+        const renderTime = Date.now();
+        const sidecars = await this.FinishOutput();
+        const endTime = Date.now();
+
+        return {
+            output: this.options.output,
+            frames: this.framesWritten,
+            sidecars,
+            timings: {
+                probe: (probeTime - startTime) / 1000,
+                render: (renderTime - probeTime) / 1000,
+                total: (endTime - startTime) / 1000
+            }
+        };
+    }
+
+    /**
+     * Creates the source reading the frames of the input.
+     */
+    private CreateFrameSource(): FrameSource {
+        const sequence = this.inputSequence;
+        const fps = this.options.fps || BlueLineGenerator.DEFAULT_FRAMERATE;
+        if (sequence && sequence.IsDirect) {
+            return new ImageSequenceFrameSource(sequence, fps);
+        }
+
+        const options = this.options;
+        return new FfmpegFrameSource(options.ffmpegPath, options.ffprobePath, sequence || this.inputPath, fps, options.frameCodec, this.bindedEffectErrorHandler);
+    }
+
+    /**
+     * Creates the sink writing the frames of the output.
+     */
+    private CreateFrameSink(): FrameSink {
+        if (this.writeFramesDirectly) {
+            return new ImageSequenceFrameSink(this.options.output);
+        }
+
+        const args = [
+            ...this.GetAudioArgs(),
+            ...GetVideoEncoderArgs(this.options, this.frameSize),
+            '-r', this.options.fps.toString(),              // Force output framerate.
+            ...GetFormatArgs(this.options.format, IsStdio(this.options.output))
+        ];
+        return new FfmpegFrameSink(this.options.ffmpegPath, args, this.options.output, this.options.frameCodec, this.bindedEffectErrorHandler);
+    }
+
+    /**
+     * Fills in the options left unset with what was found by probing the input
+     * and checks that the effect fits inside of it.
+     */
+    private ResolveOptions() {
+        const duration = this.mediaInfo.duration;
+        const start = this.options.start;
+        const fps = this.options.fps = (this.options.fps || this.mediaInfo.fps || BlueLineGenerator.DEFAULT_FRAMERATE);
+        if (duration && start >= duration) {
+            throw new Error(`The start of ${start} seconds is past the end of the input, which is ${duration} seconds long.`);
+        }
+
+        if (this.options.leadIn > start) {
+            throw new Error(`The lead-in of ${this.options.leadIn} seconds is longer than the start of ${start} seconds.`);
+        }
+
+        const remaining = duration - start;
+
+        // Ping-pong goes across and back, so the keyframes play twice.
+        const passes = (this.options.mode === 'ping-pong' ? 2 : 1);
+
+        // Lengths that run to the end of the input round down so they don't ask
+        // for a frame past it.
+        let toEnd = false;
+        if (this.options.length === 'auto') {
+            if (!duration) {
+                throw new Error('The duration of the input is unknown. Specify effect length with the -l argument.');
+            }
+
+            this.length = remaining;
+            toEnd = true;
+        }
+        else if (!this.options.length && this.options.keyframes) {
+            const lastTime = this.options.keyframes[this.options.keyframes.length - 1].time;
+            if (duration && lastTime * passes > remaining) {
+                throw new Error(`The sweep takes ${lastTime * passes} seconds going by the keyframes but only ${remaining} seconds of the input are left after the start.`);
+            }
+
+            if (lastTime <= 0) {
+                throw new Error('The last keyframe must be after the start of the sweep when no effect length is given.');
+            }
+
+            this.length = lastTime * passes;
+        }
+        else if (!this.options.length) {
+            toEnd = (duration > 0 && remaining <= BlueLineGenerator.DEFAULT_LENGTH);
+            this.length = (toEnd ? remaining : BlueLineGenerator.DEFAULT_LENGTH);
+        }
+        else {
+            if (duration && this.options.length > remaining) {
+                throw new Error(`The effect is ${this.options.length} seconds long but only ${remaining} seconds of the input are left after the start.\n` +
+                `Specify effect length with the -l argument, or use "-l auto" to sweep across the rest of the input.`);
+            }
+
+            this.length = this.options.length;
+        }
+
+        const frames = fps * this.length;
+        this.totalFrames = Math.max(1, (toEnd ? Math.floor(frames) : Math.ceil(frames)));
+        this.sweeps = this.CreateRegionSweeps(passes);
+        this.leadInFrames = Math.round(fps * this.options.leadIn);
+
+        const afterSweep = remaining - this.length;
+        if (this.options.tail === 'auto') {
+            if (!duration) {
+                throw new Error('The duration of the input is unknown. Specify tail length with the --tail argument.');
+            }
+
+            this.tailFrames = Math.max(0, Math.floor(fps * afterSweep));
+        }
+        else {
+            if (duration && this.options.tail > afterSweep) {
+                throw new Error(`The tail of ${this.options.tail} seconds goes past the end of the input, which has ${Math.max(0, afterSweep)} seconds left after the effect.`);
+            }
+
+            this.tailFrames = Math.round(fps * this.options.tail);
+        }
+
+        this.crossfadeFrames = Math.max(1, Math.round(fps * this.options.crossfade));
+    }
+
+    /**
+     * Creates the sweeps of each region, checking they fit inside the frame
+     * and the effect.
+     * @param passes How many times the line goes across.
+     */
+    private CreateRegionSweeps(passes: number): RegionSweep[] {
+        const options = this.options;
+        const frameSize = new Size(this.mediaInfo.width, this.mediaInfo.height);
+        const easing = ParseEasing(options.easing);
+        const regions: SweepRegion[] = (options.regions && options.regions.length > 0 ? options.regions : [{ x: 0, y: 0, width: '100%', height: '100%' }]);
+
+        const sweeps = regions.map((region: SweepRegion, index: number) => {
+            const bounds = ResolveRegionRect(region, frameSize);
+            if (bounds.IsEmpty) {
+                throw new Error(`Region #${index + 1} is outside of the frame.`);
+            }
+
+            const delay = region.delay || 0;
+            const length = (region.length !== undefined ? region.length : this.length - delay);
+            if (length <= 0 || delay + length > this.length + 1e-6) {
+                throw new Error(`Region #${index + 1} sweeps from ${delay} to ${delay + length} seconds, which doesn't fit in the effect of ${this.length} seconds.`);
+            }
+
+            // Keyframes are for the whole effect, so regions with their own
+            // length go straight across instead.
+            const keyframes = (options.keyframes && region.length === undefined ?
+                options.keyframes : [{ time: 0, position: 0 }, { time: length / passes, position: 1 }]);
+
+            const angle = (region.angle !== undefined ? region.angle : options.angle);
+            return new RegionSweep(
+                bounds,
+                angle,
+                CreateSweepShape(region.shape || options.sweepShape, angle),
+                new SweepCurve(keyframes, (region.easing ? ParseEasing(region.easing) : easing)),
+                delay,
+                length,
+                (options.mode === 'ping-pong')
+            );
+        });
+
+        for (let i = 0; i < sweeps.length; ++i) {
+            for (let j = i + 1; j < sweeps.length; ++j) {
+                if (!sweeps[i].Bounds.Intersect(sweeps[j].Bounds).IsEmpty) {
+                    throw new Error(`Regions #${i + 1} and #${j + 1} overlap.`);
+                }
+            }
+        }
+
+        return sweeps;
+    }
+
+    /**
+     * Gets the time in seconds of the input where the output starts.
+     */
+    private GetFirstFrameTime(): number {
+        return this.options.start - this.options.leadIn;
+    }
+
+    /**
+     * Gets the total number of frames in the output.
+     */
+    private GetOutputFrameCount(): number {
+        return this.leadInFrames + this.totalFrames + this.tailFrames;
+    }
+
+    /**
+     * Creates the effect and feeds the frames to the sink.
+     */
+    private async DoEffect() {
+        this.EmitProgress('rendering');
+        this.sink = this.options.frameSink || this.CreateFrameSink();
+        this.sink.Open(this.frameSize, this.options.fps);
+
+        // Created once the size of the first frame is known.
+        this.outputCanvas = null;
+
+        this.frameRect = new Rectangle();
+        if (this.options.sidecar.length > 0) {
+            this.sidecarWriter = new SidecarWriter(this.options.sidecar, this.options.fps, this.frameSize);
+        }
+
+        if (this.options.exportMode === 'video') {
+            let image = await this.source.Next();
+            while (image) {
+                this.ThrowIfFailed();
+                this.currentFrameNum++;
+                await this.DoEffectSingleFrame(image);
+                image = await this.source.Next();
+            }
+
+            while (this.queuedFrames.length > 0) {
+                await this.WriteQueuedFrame();
+            }
+
+            this.ThrowIfFailed();
+            if (this.source.FramesRead < this.GetOutputFrameCount()) {
+                this.emit('warning', `Not enough frames were exported to fulfill the length of the effect. Expected ${this.GetOutputFrameCount()} but got ${this.source.FramesRead}.\n` +
+                `Specify effect length with the -l argument.`);
+            }
+        }
+        else {
+            // Exports come from the geometry alone, so the input isn't needed.
+            this.SetUpCanvases(this.frameSize.Width, this.frameSize.Height);
+            const frameCount = this.GetOutputFrameCount();
+            while (this.currentFrameNum < frameCount) {
+                this.ThrowIfFailed();
+                this.currentFrameNum++;
+                this.DoExportFrame();
+                if (this.sidecarWriter) {
+                    this.RecordSidecarFrame();
+                }
+
+                await this.WriteOutputFrame(this.outputCanvas);
+            }
+        }
+    }
+
+    /**
+     * Waits for the sink to finish the output once every frame has been written
+     * and writes the sidecar files.
+     * @returns The paths of the sidecar files.
+     */
+    private async FinishOutput(): Promise<string[]> {
+        // Out of frames, we're done here.
+        this.EmitProgress('finishing');
+        await this.source.Close();
+        await this.ClosePool();
+        await this.sink.Finish();
+
+        return (this.sidecarWriter ? this.sidecarWriter.Write(this.options.output) : []);
+    }
+
+    /**
+     * Gets the FFmpeg arguments that mux the audio into the output. The piped
+     * frames are always the first input.
+     * @returns Arguments to insert after the frame input.
+     */
+    private GetAudioArgs(): string[] {
+        if (this.options.videoCodec === 'gif') {
+            // The palette filter picks the video, and GIFs have no audio.
+            return [];
+        }
+
+        const keep = (this.options.audio === 'keep');
+        if (this.options.audio === 'none' || this.options.exportMode !== 'video' || !this.audioCodec || (keep && this.mediaInfo.audioStreams === 0)) {
+            return ['-map', '0:v'];
+        }
+
+        const outputLength = this.GetOutputFrameCount() / this.options.fps;
+        return [
+            ...(keep ? ['-ss', this.GetFirstFrameTime().toString()] : []),  // Line the audio up with the frames.
+            '-t', outputLength.toString(),                  // Trim the audio to the length of the output.
+            '-i', (keep ? this.inputPath : this.options.audio),
+            '-map', '0:v',                                  // Video from the frames.
+            '-map', '1:a',                                  // Audio from the second input.
+            '-c:a', this.audioCodec,                        // Audio codec.
+            '-shortest'                                     // Stop at the end of the video.
+        ];
+    }
+
+    /**
+     * Processes and outputs a single frame.
+     * @param image The frame of the input.
+     */
+    private async DoEffectSingleFrame(image: Image | Canvas) {
+        if (!this.outputCanvas) {
+            // We can set the canvases to the proper size now.
+            this.SetUpCanvases(image.width, image.height);
+        }
+
+        const sweepFrameNum = this.currentFrameNum - 1 - this.leadInFrames;
+        let phase: EffectPhase = 'sweep';
+        let phaseFrameNum = sweepFrameNum;
+        if (sweepFrameNum < 0) {
+            phase = 'lead-in';
+            phaseFrameNum = this.currentFrameNum - 1;
+        }
+        else if (sweepFrameNum >= this.totalFrames) {
+            phase = 'tail';
+            phaseFrameNum = sweepFrameNum - this.totalFrames;
+        }
+
+        this.history.Push(image);
+        const state = this.GetFrameState();
+        if (this.sidecarWriter) {
+            this.RecordSidecarFrame();
+        }
+
+        // Advancing depends on the frames before, so it stays on this thread.
+        const layers = this.compositor.Advance({ image, history: this.history, state, phase, phaseFrameNum });
+        const frame: CompositeFrame = { image, layers, state, phase, phaseFrameNum };
+        if (!this.pool) {
+            await this.WriteOutputFrame(this.compositor.Composite(frame));
+            return;
+        }
+
+        const encoding = this.sink.Encoding || { type: 'raw' };
+        // The pixels were copied out of the canvases, so they can be handed
+        // over rather than copied again.
+        const packed = this.compositor.Pack(frame);
+        const result = this.pool.Run({ frame: packed, encoding }, GetTransferList(FrameCompositor.GetPackedPixels(packed)));
+
+        // Handled when it's written, but it may fail before then.
+        result.catch(() => {});
+        this.queuedFrames.push(result);
+
+        // Keep every worker busy without holding too many frames in memory.
+        while (this.queuedFrames.length >= this.pool.Size * 2) {
+            await this.WriteQueuedFrame();
+        }
+    }
+
+    /**
+     * Sizes the canvases to the frames and sets up what depends on the size.
+     * @param width Width of the frames.
+     * @param height Height of the frames.
+     */
+    private SetUpCanvases(width: number, height: number) {
+        this.outputCanvas = createCanvas(width, height);
+
+        this.frameRect.Size = new Size(width, height);
+        const settings = this.GetCompositorSettings();
+        this.compositor = new FrameCompositor(settings, this.stillImage, this.options.createEffect);
+        this.history = new FrameHistory(this.compositor.Effect.HistoryLength, this.frameRect.Size);
+        if (this.options.exportMode !== 'video' || this.options.jobs <= 1) {
+            return;
+        }
+
+        if (this.options.createEffect) {
+            this.emit('warning', 'Custom effects can\'t run on other threads, so frames are composited on one.');
+            return;
+        }
+
+        // Packed executables only hold the entry script.
+        const script = path.join(__dirname, 'compositeworker.js');
+        if (!fs.existsSync(script)) {
+            this.emit('warning', 'The worker script wasn\'t found next to the program, so frames are composited on one thread.');
+            return;
+        }
+
+        this.pool = new WorkerPool(script, this.options.jobs, settings, this.bindedEffectErrorHandler);
+    }
+
+    /**
+     * Gets the settings of the compositor from the options.
+     */
+    private GetCompositorSettings(): CompositorSettings {
+        const options = this.options;
+        return {
+            width: this.frameRect.Width,
+            height: this.frameRect.Height,
+            effect: options.effect,
+            reveal: (options.mode === 'reveal'),
+            slitDelay: options.slitDelay,
+            feather: options.feather,
+            treatment: {
+                tint: options.tint,
+                desaturate: options.desaturate,
+                desaturateAmount: options.desaturateAmount,
+                brightness: options.brightness,
+                contrast: options.contrast,
+                blur: options.blur,
+                vignette: options.vignette
+            },
+            treatmentFadeIn: options.treatmentFadeIn,
+            line: {
+                color: options.lineColor,
+                width: options.lineWidth,
+                glowRadius: options.glowRadius,
+                glowStrength: options.glowStrength,
+                glowColor: options.glowColor,
+                gradient: options.lineGradient,
+                dash: options.lineDash,
+                haloWidth: options.haloWidth,
+                haloColor: options.haloColor
+            },
+            defaultLineWidth: BlueLineGenerator.DEFAULT_LINE_WIDTH,
+            defaultGlowRadius: BlueLineGenerator.DEFAULT_GLOW_RADIUS,
+            regions: this.sweeps.map((sweep) => sweep.Bounds)
+        };
+    }
+
+    /**
+     * Draws a frame of the overlay or matte onto the output canvas from the
+     * geometry of the sweep alone.
+     */
+    private DoExportFrame() {
+        const outputContext = this.outputCanvas.getContext('2d');
+        const { geometry, drawLines, frozenAlpha } = this.GetFrameState();
+
+        outputContext.clearRect(0, 0, this.outputCanvas.width, this.outputCanvas.height);
+        if (this.options.exportMode === 'overlay') {
+            if (drawLines) {
+                this.compositor.DrawLines(outputContext, geometry);
+            }
+
+            return;
+        }
+
+        outputContext.fillStyle = '#000';
+        outputContext.fillRect(0, 0, this.outputCanvas.width, this.outputCanvas.height);
+        if (!geometry || frozenAlpha <= 0) {
+            return;
+        }
+
+        const area = this.compositor.Area;
+        area.Update(geometry);
+        outputContext.globalAlpha = frozenAlpha;
+        area.Fill(outputContext, geometry, '#fff');
+        outputContext.globalAlpha = 1;
+    }
+
+    /**
+     * Gets what the current frame shows.
+     */
+    private GetFrameState(): FrameState {
+        const sweepFrameNum = this.currentFrameNum - 1 - this.leadInFrames;
+        if (sweepFrameNum < 0) {
+            return { geometry: null, drawLines: false, frozenAlpha: 0 };
+        }
+
+        if (sweepFrameNum < this.totalFrames) {
+            return { geometry: this.GetFrameGeometry(this.GetSweepTime(sweepFrameNum)), drawLines: true, frozenAlpha: 1 };
+        }
+
+        return {
+            geometry: this.GetFrameGeometry(this.length),
+            drawLines: false,
+            frozenAlpha: (this.options.mode === 'freeze' ? this.GetTailFrozenAlpha(sweepFrameNum - this.totalFrames) : 1)
+        };
+    }
+
+    /**
+     * Adds the current frame to the sidecar files.
+     */
+    private RecordSidecarFrame() {
+        const state = this.GetFrameState();
+        const geometry = state.geometry;
+        const frame = this.currentFrameNum - 1;
+        this.sidecarWriter.Add({
+            frame: frame,
+            time: frame / this.options.fps,
+            sourceFrame: Math.round(this.GetFirstFrameTime() * this.options.fps) + frame,
+            progress: (geometry ? geometry.progress : 0),
+            lines: (geometry && state.drawLines ? geometry.lines.map((line) => [line[0], line[line.length - 1]]) : []),
+            frozenBounds: (geometry && state.frozenAlpha > 0 ? geometry.frozenBounds : null)
+        });
+    }
+
+    /**
+     * Writes a composited frame to the sink and reports the progress.
+     * @param canvas The frame.
+     */
+    private async WriteOutputFrame(canvas: Canvas) {
+        this.ThrowIfFailed();
+        await this.sink.Write(canvas);
+        this.OnFrameWritten();
+    }
+
+    /**
+     * Waits for the oldest frame sent to the pool and writes it to the sink.
+     */
+    private async WriteQueuedFrame() {
+        const data = await this.queuedFrames.shift();
+        this.ThrowIfFailed();
+        if (this.sink.WriteEncoded) {
+            await this.sink.WriteEncoded(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+        }
+        else {
+            // The sink only takes canvases, so the frame was sent back raw.
+            const pixels = new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength);
+            const outputContext = this.outputCanvas.getContext('2d');
+            outputContext.putImageData(new ImageData(pixels, this.outputCanvas.width, this.outputCanvas.height), 0, 0);
+            await this.sink.Write(this.outputCanvas);
+        }
+
+        this.OnFrameWritten();
+    }
+
+    /**
+     * Reports a frame having been written.
+     */
+    private OnFrameWritten() {
+        this.framesWritten++;
+        this.emit('frame', this.framesWritten, this.GetOutputFrameCount());
+        this.EmitProgress('rendering');
+    }
+
+    /**
+     * Reports how far the generator has got.
+     * @param stage What the generator is doing.
+     */
+    private EmitProgress(stage: GenerateStage) {
+        const totalFrames = this.GetOutputFrameCount();
+        this.emit('progress', {
+            stage,
+            frame: this.framesWritten,
+            totalFrames,
+            fraction: (totalFrames > 0 ? this.framesWritten / totalFrames : 0)
+        });
+    }
+
+    /**
+     * Gets the time into the sweep of one of its frames. The first frame is at
+     * the start and the last frame is at the end, so the line finishes exactly
+     * on the far edge.
+     * @param sweepFrameNum The number of the frame in the sweep, starting at 0.
+     */
+    private GetSweepTime(sweepFrameNum: number): number {
+        if (this.totalFrames <= 1) {
+            return this.length;
+        }
+
+        return this.length * sweepFrameNum / (this.totalFrames - 1);
+    }
+
+    /**
+     * Gets the frozen area and lines of all the regions.
+     * @param time Seconds since the start of the sweep.
+     */
+    private GetFrameGeometry(time: number): FrameGeometry {
+        const geometry: FrameGeometry = { time, frozen: [], lines: [], progress: 0, frozenBounds: null, regions: [] };
+        let frozenBounds = new Rectangle();
+        for (let sweep of this.sweeps) {
+            const regionGeometry = sweep.GetGeometry(time);
+            const progress = sweep.GetProgress(time);
+            if (this.options.mode === 'reveal') {
+                // The region starts frozen and what the line passes is cut out
+                // of it. Its bounds stay until it's been swept.
+                geometry.frozen.push(sweep.Bounds.ToPolygon());
+                if (progress < 1) {
+                    frozenBounds = frozenBounds.Union(sweep.Bounds);
+                }
+            }
+            else {
+                for (let polygon of regionGeometry.frozen) {
+                    frozenBounds = frozenBounds.Union(polygon.GetBounds().ToRectangle());
+                }
+            }
+
+            geometry.frozen.push(...regionGeometry.frozen);
+            geometry.lines.push(...regionGeometry.lines);
+            geometry.progress = Math.max(geometry.progress, progress);
+            geometry.regions.push({ bounds: sweep.Bounds, angle: sweep.Angle, lines: regionGeometry.lines });
+        }
+
+        geometry.frozenBounds = (frozenBounds.IsEmpty ? null : frozenBounds);
+        return geometry;
+    }
+
+    /**
+     * Gets how much of the frozen result shows in a frame of the tail.
+     * @param tailFrameNum The number of the frame after the sweep, starting at 0.
+     */
+    private GetTailFrozenAlpha(tailFrameNum: number): number {
+        switch (this.options.tailMode) {
+            case 'hold': {
+                return 1;
+            }
+            case 'crossfade': {
+                return 1 - Math.min(1, (tailFrameNum + 1) / this.crossfadeFrames);
+            }
+            default: {
+                return 0;
+            }
+        }
+    }
+
+    /**
+     * Stops the threads compositing frames, if there are any.
+     */
+    private async ClosePool() {
+        this.queuedFrames = [];
+        if (this.pool) {
+            await this.pool.Close();
+            this.pool = null;
+        }
+    }
+
+    /**
+     * Removes the temporary copy of the input from stdin.
+     */
+    private RemoveSpooledInput() {
+        if (this.spoolPath) {
+            RemoveTempFile(this.spoolPath);
+            this.spoolPath = null;
+        }
+    }
+
+    /**
+     * Callback for any other errors during the producing of the effect. Only
+     * the first error is kept, and it stops the run.
+     */
+    private OnEffectError(error: Error) {
+        if (error && !this.failure) {
+            this.failure = error;
+            this.rejectRun(error);
+        }
+    }
+
+    /**
+     * Throws the error that stopped the run, if there is one.
+     */
+    private ThrowIfFailed() {
+        if (this.failure) {
+            throw this.failure;
+        }
+    }
+
+    /**
+     * Stops reading and writing frames and removes whatever was written of the
+     * output after the run has failed.
+     */
+    private async CleanUp() {
+        if (this.source) {
+            await this.source.Close();
+        }
+
+        await this.ClosePool();
+
+        if (this.sink) {
+            await this.sink.Abort();
         }
     }
 }
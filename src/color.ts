@@ -18,6 +18,152 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+/**
+ * CSS named colours as hexadecimal strings.
+ */
+const NAMED_COLORS: { [name: string]: string } = {
+    'aliceblue': 'f0f8ff', 'antiquewhite': 'faebd7', 'aqua': '00ffff',
+    'aquamarine': '7fffd4', 'azure': 'f0ffff', 'beige': 'f5f5dc',
+    'bisque': 'ffe4c4', 'black': '000000', 'blanchedalmond': 'ffebcd',
+    'blue': '0000ff', 'blueviolet': '8a2be2', 'brown': 'a52a2a',
+    'burlywood': 'deb887', 'cadetblue': '5f9ea0', 'chartreuse': '7fff00',
+    'chocolate': 'd2691e', 'coral': 'ff7f50', 'cornflowerblue': '6495ed',
+    'cornsilk': 'fff8dc', 'crimson': 'dc143c', 'cyan': '00ffff',
+    'darkblue': '00008b', 'darkcyan': '008b8b', 'darkgoldenrod': 'b8860b',
+    'darkgray': 'a9a9a9', 'darkgreen': '006400', 'darkgrey': 'a9a9a9',
+    'darkkhaki': 'bdb76b', 'darkmagenta': '8b008b', 'darkolivegreen': '556b2f',
+    'darkorange': 'ff8c00', 'darkorchid': '9932cc', 'darkred': '8b0000',
+    'darksalmon': 'e9967a', 'darkseagreen': '8fbc8f', 'darkslateblue': '483d8b',
+    'darkslategray': '2f4f4f', 'darkslategrey': '2f4f4f',
+    'darkturquoise': '00ced1', 'darkviolet': '9400d3', 'deeppink': 'ff1493',
+    'deepskyblue': '00bfff', 'dimgray': '696969', 'dimgrey': '696969',
+    'dodgerblue': '1e90ff', 'firebrick': 'b22222', 'floralwhite': 'fffaf0',
+    'forestgreen': '228b22', 'fuchsia': 'ff00ff', 'gainsboro': 'dcdcdc',
+    'ghostwhite': 'f8f8ff', 'gold': 'ffd700', 'goldenrod': 'daa520',
+    'gray': '808080', 'green': '008000', 'greenyellow': 'adff2f',
+    'grey': '808080', 'honeydew': 'f0fff0', 'hotpink': 'ff69b4',
+    'indianred': 'cd5c5c', 'indigo': '4b0082', 'ivory': 'fffff0',
+    'khaki': 'f0e68c', 'lavender': 'e6e6fa', 'lavenderblush': 'fff0f5',
+    'lawngreen': '7cfc00', 'lemonchiffon': 'fffacd', 'lightblue': 'add8e6',
+    'lightcoral': 'f08080', 'lightcyan': 'e0ffff',
+    'lightgoldenrodyellow': 'fafad2', 'lightgray': 'd3d3d3',
+    'lightgreen': '90ee90', 'lightgrey': 'd3d3d3', 'lightpink': 'ffb6c1',
+    'lightsalmon': 'ffa07a', 'lightseagreen': '20b2aa',
+    'lightskyblue': '87cefa', 'lightslategray': '778899',
+    'lightslategrey': '778899', 'lightsteelblue': 'b0c4de',
+    'lightyellow': 'ffffe0', 'lime': '00ff00', 'limegreen': '32cd32',
+    'linen': 'faf0e6', 'magenta': 'ff00ff', 'maroon': '800000',
+    'mediumaquamarine': '66cdaa', 'mediumblue': '0000cd',
+    'mediumorchid': 'ba55d3', 'mediumpurple': '9370db',
+    'mediumseagreen': '3cb371', 'mediumslateblue': '7b68ee',
+    'mediumspringgreen': '00fa9a', 'mediumturquoise': '48d1cc',
+    'mediumvioletred': 'c71585', 'midnightblue': '191970',
+    'mintcream': 'f5fffa', 'mistyrose': 'ffe4e1', 'moccasin': 'ffe4b5',
+    'navajowhite': 'ffdead', 'navy': '000080', 'oldlace': 'fdf5e6',
+    'olive': '808000', 'olivedrab': '6b8e23', 'orange': 'ffa500',
+    'orangered': 'ff4500', 'orchid': 'da70d6', 'palegoldenrod': 'eee8aa',
+    'palegreen': '98fb98', 'paleturquoise': 'afeeee', 'palevioletred': 'db7093',
+    'papayawhip': 'ffefd5', 'peachpuff': 'ffdab9', 'peru': 'cd853f',
+    'pink': 'ffc0cb', 'plum': 'dda0dd', 'powderblue': 'b0e0e6',
+    'purple': '800080', 'rebeccapurple': '663399', 'red': 'ff0000',
+    'rosybrown': 'bc8f8f', 'royalblue': '4169e1', 'saddlebrown': '8b4513',
+    'salmon': 'fa8072', 'sandybrown': 'f4a460', 'seagreen': '2e8b57',
+    'seashell': 'fff5ee', 'sienna': 'a0522d', 'silver': 'c0c0c0',
+    'skyblue': '87ceeb', 'slateblue': '6a5acd', 'slategray': '708090',
+    'slategrey': '708090', 'snow': 'fffafa', 'springgreen': '00ff7f',
+    'steelblue': '4682b4', 'tan': 'd2b48c', 'teal': '008080',
+    'thistle': 'd8bfd8', 'tomato': 'ff6347', 'turquoise': '40e0d0',
+    'violet': 'ee82ee', 'wheat': 'f5deb3', 'white': 'ffffff',
+    'whitesmoke': 'f5f5f5', 'yellow': 'ffff00', 'yellowgreen': '9acd32'
+};
+
+/**
+ * A colour with an alpha channel.
+ */
+export class Color {
+    /**
+     * Red in the range of 0-255.
+     */
+    public Red: number;
+
+    /**
+     * Green in the range of 0-255.
+     */
+    public Green: number;
+
+    /**
+     * Blue in the range of 0-255.
+     */
+    public Blue: number;
+
+    /**
+     * Opacity in the range of 0-1.
+     */
+    public Alpha: number;
+
+    /**
+     * @param red Red in the range of 0-255.
+     * @param green Green in the range of 0-255.
+     * @param blue Blue in the range of 0-255.
+     * @param alpha Opacity in the range of 0-1.
+     */
+    constructor(red: number = 0, green: number = 0, blue: number = 0, alpha: number = 1) {
+        CheckRange('Red', red, 0, 255);
+        CheckRange('Green', green, 0, 255);
+        CheckRange('Blue', blue, 0, 255);
+        CheckRange('Alpha', alpha, 0, 1);
+        this.Red = red;
+        this.Green = green;
+        this.Blue = blue;
+        this.Alpha = alpha;
+    }
+
+    /**
+     * Returns a copy of the colour with a different opacity.
+     * @param alpha Opacity in the range of 0-1.
+     */
+    public WithAlpha(alpha: number): Color {
+        return new Color(this.Red, this.Green, this.Blue, alpha);
+    }
+
+    /**
+     * Returns the colour as a hexadecimal string, including the pound(#) sign.
+     * The alpha is only included when the colour isn't opaque.
+     */
+    public ToHexString(): string {
+        let hex = '#' + RgbToHexString(Math.round(this.Red), Math.round(this.Green), Math.round(this.Blue));
+        if (this.Alpha < 1) {
+            hex += Math.round(this.Alpha * 255).toString(16).padStart(2, '0');
+        }
+
+        return hex;
+    }
+
+    /**
+     * Returns the colour as a string that canvases understand.
+     */
+    public ToCssString(): string {
+        if (this.Alpha >= 1) {
+            return this.ToHexString();
+        }
+
+        return `rgba(${Math.round(this.Red)}, ${Math.round(this.Green)}, ${Math.round(this.Blue)}, ${this.Alpha})`;
+    }
+}
+
+/**
+ * Throws if a component of a colour is out of range.
+ * @param name The name of the component.
+ * @param value The value of the component.
+ * @param min The smallest value allowed.
+ * @param max The largest value allowed.
+ */
+function CheckRange(name: string, value: number, min: number, max: number) {
+    if (typeof value !== 'number' || !(value >= min && value <= max)) {
+        throw new Error(`${name} must be in the range of ${min}-${max}, got ${value}.`);
+    }
+}
+
 /**
  * Returns RGB values into a hexadecimal string.
  * Doesn't include the pound(#) sign.
@@ -35,3 +181,251 @@ export function RgbToHexString(red: number, green: number, blue: number) {
            zeroPadNumber(green.toString(16), 2) +
            zeroPadNumber(blue.toString(16), 2);
 }
+
+/**
+ * Converts RGB to HSL.
+ * @param red Red in the range of 0-255.
+ * @param green Green in the range of 0-255.
+ * @param blue Blue in the range of 0-255.
+ * @returns Hue in degrees, and saturation and lightness in the range of 0-1.
+ */
+export function RgbToHsl(red: number, green: number, blue: number): number[] {
+    const r = red / 255, g = green / 255, b = blue / 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const lightness = (max + min) / 2;
+    const delta = max - min;
+    if (delta === 0) {
+        return [0, 0, lightness];
+    }
+
+    const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    return [GetHue(r, g, b, max, delta), saturation, lightness];
+}
+
+/**
+ * Converts HSL to RGB.
+ * @param hue Hue in degrees.
+ * @param saturation Saturation in the range of 0-1.
+ * @param lightness Lightness in the range of 0-1.
+ * @returns Red, green and blue in the range of 0-255.
+ */
+export function HslToRgb(hue: number, saturation: number, lightness: number): number[] {
+    const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+    return ChromaToRgb(hue, chroma, lightness - chroma / 2);
+}
+
+/**
+ * Converts RGB to HSV.
+ * @param red Red in the range of 0-255.
+ * @param green Green in the range of 0-255.
+ * @param blue Blue in the range of 0-255.
+ * @returns Hue in degrees, and saturation and value in the range of 0-1.
+ */
+export function RgbToHsv(red: number, green: number, blue: number): number[] {
+    const r = red / 255, g = green / 255, b = blue / 255;
+    const max = Math.max(r, g, b);
+    const delta = max - Math.min(r, g, b);
+    if (delta === 0) {
+        return [0, 0, max];
+    }
+
+    return [GetHue(r, g, b, max, delta), delta / max, max];
+}
+
+/**
+ * Converts HSV to RGB.
+ * @param hue Hue in degrees.
+ * @param saturation Saturation in the range of 0-1.
+ * @param value Value in the range of 0-1.
+ * @returns Red, green and blue in the range of 0-255.
+ */
+export function HsvToRgb(hue: number, saturation: number, value: number): number[] {
+    const chroma = value * saturation;
+    return ChromaToRgb(hue, chroma, value - chroma);
+}
+
+/**
+ * Gets the hue of RGB values in the range of 0-1.
+ */
+function GetHue(r: number, g: number, b: number, max: number, delta: number): number {
+    let hue: number;
+    if (max === r) {
+        hue = ((g - b) / delta) % 6;
+    }
+    else if (max === g) {
+        hue = (b - r) / delta + 2;
+    }
+    else {
+        hue = (r - g) / delta + 4;
+    }
+
+    hue *= 60;
+    return (hue < 0 ? hue + 360 : hue);
+}
+
+/**
+ * Gets RGB values from a hue, chroma and the amount to add to each component.
+ */
+function ChromaToRgb(hue: number, chroma: number, match: number): number[] {
+    const h = (((hue % 360) + 360) % 360) / 60;
+    const x = chroma * (1 - Math.abs(h % 2 - 1));
+    let rgb: number[];
+    if (h < 1) {
+        rgb = [chroma, x, 0];
+    }
+    else if (h < 2) {
+        rgb = [x, chroma, 0];
+    }
+    else if (h < 3) {
+        rgb = [0, chroma, x];
+    }
+    else if (h < 4) {
+        rgb = [0, x, chroma];
+    }
+    else if (h < 5) {
+        rgb = [x, 0, chroma];
+    }
+    else {
+        rgb = [chroma, 0, x];
+    }
+
+    return rgb.map((component) => Math.round(Math.min(1, Math.max(0, component + match)) * 255));
+}
+
+/**
+ * Makes a colour lighter.
+ * @param color The colour.
+ * @param amount How much to add to the lightness in the range of 0-1.
+ */
+export function Lighten(color: Color, amount: number): Color {
+    const hsl = RgbToHsl(color.Red, color.Green, color.Blue);
+    const rgb = HslToRgb(hsl[0], hsl[1], Math.min(1, Math.max(0, hsl[2] + amount)));
+    return new Color(rgb[0], rgb[1], rgb[2], color.Alpha);
+}
+
+/**
+ * Makes a colour darker.
+ * @param color The colour.
+ * @param amount How much to take from the lightness in the range of 0-1.
+ */
+export function Darken(color: Color, amount: number): Color {
+    return Lighten(color, -amount);
+}
+
+/**
+ * Mixes two colours together.
+ * @param from The first colour.
+ * @param to The second colour.
+ * @param amount How much of the second colour to use in the range of 0-1.
+ */
+export function Mix(from: Color, to: Color, amount: number): Color {
+    const MixComponent = (a: number, b: number) => a + (b - a) * amount;
+    return new Color(
+        Math.round(MixComponent(from.Red, to.Red)),
+        Math.round(MixComponent(from.Green, to.Green)),
+        Math.round(MixComponent(from.Blue, to.Blue)),
+        MixComponent(from.Alpha, to.Alpha)
+    );
+}
+
+/**
+ * Parses a number that may be a percentage of a given maximum.
+ * @param value The number.
+ * @param max What 100% is.
+ */
+function ParseComponent(value: string, max: number): number {
+    const isPercentage = value.endsWith('%');
+    const number = Number(isPercentage ? value.slice(0, -1) : value);
+    if (value === '' || !isFinite(number)) {
+        throw new Error(`"${value}" is not a number.`);
+    }
+
+    return (isPercentage ? number / 100 * max : number);
+}
+
+/**
+ * Parses the arguments of a CSS colour function, separated by commas or
+ * spaces with an optional "/ alpha".
+ * @param args The text between the parentheses.
+ * @returns The components, with the alpha last if given.
+ */
+function SplitFunctionArgs(args: string): string[] {
+    const slashParts = args.split('/');
+    const parts = slashParts[0].trim().split(/\s*,\s*|\s+/).filter((part) => part !== '');
+    if (slashParts.length === 2) {
+        parts.push(slashParts[1].trim());
+    }
+    else if (slashParts.length > 2) {
+        throw new Error('Too many slashes.');
+    }
+
+    return parts;
+}
+
+/**
+ * Parses a colour. Accepts #rgb, #rgba, #rrggbb and #rrggbbaa, CSS named
+ * colours and the rgb(), rgba(), hsl() and hsla() functions.
+ * @param value The colour to parse.
+ */
+export function ParseColor(value: string): Color {
+    const text = value.trim().toLowerCase();
+    try {
+        if (NAMED_COLORS[text]) {
+            return ParseColor('#' + NAMED_COLORS[text]);
+        }
+
+        if (text === 'transparent') {
+            return new Color(0, 0, 0, 0);
+        }
+
+        if (text.startsWith('#')) {
+            let hex = text.substring(1);
+            if (!/^[0-9a-f]+$/.test(hex) || [3, 4, 6, 8].indexOf(hex.length) === -1) {
+                throw new Error('Expected 3, 4, 6 or 8 hexadecimal digits.');
+            }
+
+            if (hex.length <= 4) {
+                hex = hex.split('').map((digit) => digit + digit).join('');
+            }
+
+            return new Color(
+                parseInt(hex.substring(0, 2), 16),
+                parseInt(hex.substring(2, 4), 16),
+                parseInt(hex.substring(4, 6), 16),
+                (hex.length === 8 ? parseInt(hex.substring(6, 8), 16) / 255 : 1)
+            );
+        }
+
+        const match = /^(rgba?|hsla?)\((.*)\)$/.exec(text);
+        if (match) {
+            const parts = SplitFunctionArgs(match[2]);
+            if (parts.length !== 3 && parts.length !== 4) {
+                throw new Error('Expected 3 components and an optional alpha.');
+            }
+
+            const alpha = (parts.length === 4 ? ParseComponent(parts[3], 1) : 1);
+            if (match[1].startsWith('rgb')) {
+                return new Color(
+                    ParseComponent(parts[0], 255),
+                    ParseComponent(parts[1], 255),
+                    ParseComponent(parts[2], 255),
+                    alpha
+                );
+            }
+
+            const hue = ParseComponent(parts[0].replace(/deg$/, ''), 360);
+            const saturation = ParseComponent(parts[1], 1);
+            const lightness = ParseComponent(parts[2], 1);
+            CheckRange('Saturation', saturation, 0, 1);
+            CheckRange('Lightness', lightness, 0, 1);
+            const rgb = HslToRgb(hue, saturation, lightness);
+            return new Color(rgb[0], rgb[1], rgb[2], alpha);
+        }
+    }
+    catch (e) {
+        throw new Error(`Invalid colour "${value}": ${e.message}`);
+    }
+
+    throw new Error(`Invalid colour "${value}". Expected a hexadecimal colour such as #00c2cb, a colour name, or rgb(), rgba(), hsl() or hsla().`);
+}
@@ -0,0 +1,38 @@
+/**
+ * @file Worker thread that composites and encodes frames.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { parentPort, workerData } from 'worker_threads';
+import { CompositeTask, CompositorSettings, FrameCompositor, ReviveCompositorSettings } from './compositor';
+import { EncodeFrame } from './frames';
+import { GetTransferList } from './workerpool';
+
+const compositor = new FrameCompositor(ReviveCompositorSettings(workerData as CompositorSettings));
+
+parentPort.on('message', function(task: CompositeTask) {
+    try {
+        const canvas = compositor.Composite(compositor.Unpack(task.frame));
+        const result = EncodeFrame(canvas, task.encoding);
+        parentPort.postMessage({ result }, GetTransferList([result]));
+    }
+    catch (e) {
+        parentPort.postMessage({ error: e.message });
+    }
+});
@@ -0,0 +1,421 @@
+/**
+ * @file Module for compositing whole frames of the output.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { createCanvas, ImageData, Canvas, SKRSContext2D, Image } from '@napi-rs/canvas';
+import { Color } from './color';
+import { CompositeFrame, CreateEffect, Effect, EffectFactory, EffectFrame, EffectLayers, EffectName, EffectPhase } from './effects';
+import { CreateTreatmentFilters, TreatmentSettings } from './filters';
+import { Frame, FrameEncoding } from './frames';
+import { FrameGeometry, FrameState, FrozenArea, FrozenTreatment } from './frozenarea';
+import { Point, Polygon, Rectangle, Size } from './geom';
+import { LineRenderer, LineStyle } from './linestyle';
+
+/**
+ * Everything needed to set up a compositor. It holds plain data, so it can be
+ * sent to other threads.
+ */
+export interface CompositorSettings {
+    /**
+     * Width of the frames.
+     */
+    width: number;
+
+    /**
+     * Height of the frames.
+     */
+    height: number;
+
+    /**
+     * The effect compositing the frames.
+     */
+    effect: EffectName;
+
+    /**
+     * Whether everything starts frozen and the line uncovers live video.
+     */
+    reveal: boolean;
+
+    /**
+     * How many frames back the slit-scan effect reaches at the far side of a
+     * region.
+     */
+    slitDelay: number;
+
+    /**
+     * Width in pixels of the soft edge between the frozen and live regions.
+     */
+    feather: number;
+
+    /**
+     * How the frozen region is treated.
+     */
+    treatment: TreatmentSettings;
+
+    /**
+     * Whether the treatment fades in as the sweep progresses.
+     */
+    treatmentFadeIn: boolean;
+
+    /**
+     * The style of the line.
+     */
+    line: LineStyle;
+
+    /**
+     * Default thickness of the line at 1080p.
+     */
+    defaultLineWidth: number;
+
+    /**
+     * Default glow radius of the line at 1080p.
+     */
+    defaultGlowRadius: number;
+
+    /**
+     * The boxes being swept. Lines only show inside of them.
+     */
+    regions: Rectangle[];
+}
+
+/**
+ * A frame to composite with its images as pixels, so it can be sent to other
+ * threads.
+ */
+export interface PackedFrame {
+    /**
+     * The RGBA pixels of the frame of the input.
+     */
+    image: Uint8ClampedArray;
+
+    /**
+     * The RGBA pixels of each layer by name.
+     */
+    layers: { [name: string]: Uint8ClampedArray };
+
+    /**
+     * What the frame shows.
+     */
+    state: FrameState;
+
+    /**
+     * Which part of the output the frame is in.
+     */
+    phase: EffectPhase;
+
+    /**
+     * The number of the frame in its phase, starting at 0.
+     */
+    phaseFrameNum: number;
+}
+
+/**
+ * A frame for a worker to composite and encode.
+ */
+export interface CompositeTask {
+    /**
+     * The frame.
+     */
+    frame: PackedFrame;
+
+    /**
+     * How to encode the composited frame.
+     */
+    encoding: FrameEncoding;
+}
+
+/**
+ * Composites whole frames of the output with an effect and draws the line on
+ * them.
+ */
+export class FrameCompositor {
+    /**
+     * The effect compositing the frames.
+     */
+    public readonly Effect: Effect;
+
+    /**
+     * Draws the frozen and live parts of the frames.
+     */
+    public readonly Area: FrozenArea;
+
+    /**
+     * The size of the frames.
+     */
+    private frameSize: Size;
+
+    /**
+     * The boxes being swept.
+     */
+    private regions: Rectangle[];
+
+    /**
+     * Draws the line in its style.
+     */
+    private lineRenderer: LineRenderer;
+
+    /**
+     * The canvas frames are composited on.
+     */
+    private outputCanvas: Canvas;
+
+    /**
+     * Canvases images are packed from and unpacked onto, by name.
+     */
+    private scratchCanvases: { [name: string]: Canvas } = {};
+
+    /**
+     * @param settings Everything needed to set up the compositor.
+     * @param still The image the reveal starts frozen on, if any. It's only
+     * needed for advancing.
+     * @param createEffect Creates the effect instead of the one named by the
+     * settings.
+     */
+    constructor(settings: CompositorSettings, still: Image = null, createEffect: EffectFactory = null) {
+        this.frameSize = new Size(settings.width, settings.height);
+        this.regions = settings.regions;
+        this.lineRenderer = new LineRenderer(settings.line, this.frameSize, settings.defaultLineWidth, settings.defaultGlowRadius);
+        this.outputCanvas = createCanvas(settings.width, settings.height);
+        this.Area = new FrozenArea(this.frameSize, settings.feather);
+
+        const treatment = new FrozenTreatment(CreateTreatmentFilters(settings.treatment, this.frameSize), settings.treatmentFadeIn, this.frameSize, this.Area);
+        this.Effect = (createEffect ?
+            createEffect(this.frameSize, this.Area, treatment) :
+            CreateEffect(settings.effect, { reveal: settings.reveal, still, slitDelay: settings.slitDelay }, this.frameSize, this.Area, treatment));
+    }
+
+    /**
+     * Moves the effect on to a frame. It has to be called on every frame in
+     * order.
+     * @param frame The frame.
+     * @returns The layers to composite the frame from.
+     */
+    public Advance(frame: EffectFrame): EffectLayers {
+        if (frame.state.geometry) {
+            this.Area.Update(frame.state.geometry);
+        }
+
+        return this.Effect.Advance(frame);
+    }
+
+    /**
+     * Composites a frame and draws the line on it.
+     * @param frame The frame.
+     * @returns The composited frame. The canvas is reused for the next frame.
+     */
+    public Composite(frame: CompositeFrame): Canvas {
+        const geometry = frame.state.geometry;
+        if (geometry) {
+            this.Area.Update(geometry);
+        }
+
+        const outputContext = this.outputCanvas.getContext('2d');
+        this.Effect.Composite(frame, outputContext);
+        if (frame.state.drawLines) {
+            this.DrawLines(outputContext, geometry);
+        }
+
+        return this.outputCanvas;
+    }
+
+    /**
+     * Draws the lines of a frame.
+     * @param outputContext The context to draw on.
+     * @param geometry The geometry of the frame.
+     */
+    public DrawLines(outputContext: SKRSContext2D, geometry: FrameGeometry) {
+        if (geometry.lines.length === 0) {
+            return;
+        }
+
+        // Lines only show inside of their regions.
+        outputContext.save();
+        outputContext.beginPath();
+        for (let bounds of this.regions) {
+            outputContext.rect(bounds.X, bounds.Y, bounds.Width, bounds.Height);
+        }
+
+        outputContext.clip();
+        this.lineRenderer.Draw(outputContext, geometry.lines);
+        outputContext.restore();
+    }
+
+    /**
+     * Packs a frame to be sent to another thread.
+     * @param frame The frame.
+     */
+    public Pack(frame: CompositeFrame): PackedFrame {
+        const layers: { [name: string]: Uint8ClampedArray } = {};
+        for (let name of Object.keys(frame.layers)) {
+            layers[name] = this.GetPixels(frame.layers[name]);
+        }
+
+        return {
+            image: this.GetPixels(frame.image),
+            layers,
+            state: frame.state,
+            phase: frame.phase,
+            phaseFrameNum: frame.phaseFrameNum
+        };
+    }
+
+    /**
+     * Gets the pixels of a packed frame, which can be handed to another thread
+     * instead of copied.
+     * @param frame The packed frame.
+     */
+    public static GetPackedPixels(frame: PackedFrame): Uint8ClampedArray[] {
+        return [frame.image, ...Object.keys(frame.layers).map((name) => frame.layers[name])];
+    }
+
+    /**
+     * Unpacks a frame sent from another thread.
+     * @param frame The packed frame.
+     * @returns The frame. Its images are reused for the next frame.
+     */
+    public Unpack(frame: PackedFrame): CompositeFrame {
+        const layers: EffectLayers = {};
+        for (let name of Object.keys(frame.layers)) {
+            layers[name] = this.UnpackPixels(`layer:${name}`, frame.layers[name]);
+        }
+
+        return {
+            image: this.UnpackPixels('image', frame.image),
+            layers,
+            state: ReviveFrameState(frame.state),
+            phase: frame.phase,
+            phaseFrameNum: frame.phaseFrameNum
+        };
+    }
+
+    /**
+     * Gets a copy of the RGBA pixels of an image.
+     * @param image The image.
+     */
+    private GetPixels(image: Frame): Uint8ClampedArray {
+        let canvas: Canvas;
+        if (image instanceof Canvas) {
+            canvas = image;
+        }
+        else {
+            canvas = this.GetScratchCanvas('pack');
+            const context = canvas.getContext('2d');
+            context.globalCompositeOperation = 'copy';
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        }
+
+        return canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height).data;
+    }
+
+    /**
+     * Puts RGBA pixels onto a canvas.
+     * @param name The name of the canvas.
+     * @param pixels The pixels.
+     */
+    private UnpackPixels(name: string, pixels: Uint8ClampedArray): Canvas {
+        const canvas = this.GetScratchCanvas(name);
+        canvas.getContext('2d').putImageData(new ImageData(pixels, canvas.width, canvas.height), 0, 0);
+        return canvas;
+    }
+
+    /**
+     * Gets one of the canvases images are packed from and unpacked onto,
+     * creating it the first time.
+     * @param name The name of the canvas.
+     */
+    private GetScratchCanvas(name: string): Canvas {
+        if (!this.scratchCanvases[name]) {
+            this.scratchCanvases[name] = createCanvas(this.frameSize.Width, this.frameSize.Height);
+        }
+
+        return this.scratchCanvases[name];
+    }
+}
+
+/**
+ * Turns compositor settings sent from another thread back into classes.
+ * @param settings The settings as plain data.
+ */
+export function ReviveCompositorSettings(settings: CompositorSettings): CompositorSettings {
+    const line = settings.line;
+    return {
+        ...settings,
+        treatment: { ...settings.treatment, tint: ReviveColor(settings.treatment.tint) },
+        line: {
+            ...line,
+            color: ReviveColor(line.color),
+            glowColor: ReviveColor(line.glowColor),
+            haloColor: ReviveColor(line.haloColor),
+            gradient: (line.gradient ? line.gradient.map(ReviveColor) : line.gradient)
+        },
+        regions: settings.regions.map(ReviveRectangle)
+    };
+}
+
+/**
+ * Turns the state of a frame sent from another thread back into classes.
+ * @param state The state as plain data.
+ */
+function ReviveFrameState(state: FrameState): FrameState {
+    const geometry = state.geometry;
+    if (!geometry) {
+        return state;
+    }
+
+    return {
+        ...state,
+        geometry: {
+            time: geometry.time,
+            frozen: geometry.frozen.map((polygon) => new Polygon(RevivePoints(polygon.Points))),
+            lines: geometry.lines.map(RevivePoints),
+            progress: geometry.progress,
+            frozenBounds: (geometry.frozenBounds ? ReviveRectangle(geometry.frozenBounds) : null),
+            regions: geometry.regions.map((region) => ({
+                bounds: ReviveRectangle(region.bounds),
+                angle: region.angle,
+                lines: region.lines.map(RevivePoints)
+            }))
+        }
+    };
+}
+
+/**
+ * Turns a colour sent from another thread back into a class.
+ * @param color The colour as plain data, or nothing.
+ */
+function ReviveColor(color: Color): Color {
+    return (color ? new Color(color.Red, color.Green, color.Blue, color.Alpha) : color);
+}
+
+/**
+ * Turns a rectangle sent from another thread back into a class.
+ * @param rect The rectangle as plain data.
+ */
+function ReviveRectangle(rect: Rectangle): Rectangle {
+    return new Rectangle(rect.Position.X, rect.Position.Y, rect.Size.Width, rect.Size.Height);
+}
+
+/**
+ * Turns points sent from another thread back into classes.
+ * @param points The points as plain data.
+ */
+function RevivePoints(points: Point[]): Point[] {
+    return points.map((point) => new Point(point.X, point.Y));
+}
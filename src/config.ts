@@ -0,0 +1,701 @@
+/**
+ * @file Module for reading options from config files and presets.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { BlueLineGeneratorOptions } from './blueline';
+import { Color, ParseColor } from './color';
+import { EFFECT_NAMES } from './effects';
+import { FRAME_CODECS } from './frames';
+import { DashPattern, Dimension, ParseDashPattern, ParseDimension } from './linestyle';
+import { ParseRegion, SweepRegion } from './region';
+import { SIDECAR_FORMATS } from './sidecar';
+import { IsStdio } from './stdio';
+import { SWEEP_SHAPE_NAMES } from './sweep';
+import { Keyframe, ParseTime, ReadKeyframes, ValidateKeyframes } from './timing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as YAML from 'yaml';
+
+/**
+ * Options of the generator read from a config file or preset. Anything left
+ * out is taken from the command line or the defaults.
+ */
+export type ConfigOptions = Partial<BlueLineGeneratorOptions>;
+
+/**
+ * The name of an option of the generator.
+ */
+type OptionName = keyof BlueLineGeneratorOptions;
+
+/**
+ * Turns the value of a setting in a config file into the value of its option.
+ * Throws an error saying what was expected if the value is invalid.
+ * @param value The value as it was read.
+ * @param directory The directory of the config file, which relative paths are
+ * from.
+ */
+type SettingParser<T> = (value: unknown, directory: string) => T;
+
+/**
+ * How each setting of a config file is read, for the options that can be set
+ * from one.
+ */
+type ConfigSchema = { [Name in OptionName]?: SettingParser<BlueLineGeneratorOptions[Name]> };
+
+/**
+ * Settings read from a config file, before they're checked.
+ */
+type RawSettings = { [name: string]: unknown };
+
+/**
+ * Where the presets of the user are kept.
+ */
+export const PRESET_DIRECTORY = path.join(os.homedir(), '.openblueline', 'presets');
+
+/**
+ * Extensions of config files, in the order they're looked for.
+ */
+const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * The setting of a config file naming the preset it builds on.
+ */
+const EXTENDS_SETTING = 'extends';
+
+/**
+ * Presets that come with the program. Presets of the user with the same name
+ * replace them.
+ */
+const BUILT_IN_PRESETS: { [name: string]: RawSettings } = {
+    'noir': {
+        lineColor: '#ffffff',
+        glowColor: '#ffffff',
+        desaturate: 'grey',
+        contrast: 1.3,
+        vignette: 0.5
+    },
+    'vintage': {
+        lineColor: '#e8b04a',
+        desaturate: 'sepia',
+        desaturateAmount: 0.8,
+        brightness: 0.95,
+        vignette: 0.6,
+        treatmentFadeIn: true
+    },
+    'neon': {
+        lineGradient: ['#ff2bd6', '#00f0ff'],
+        glowStrength: 2,
+        glowRadius: 25,
+        haloWidth: 3,
+        tint: 'rgba(120, 0, 255, 0.2)'
+    }
+};
+
+/**
+ * Checks whether a value read from a config is an object of settings.
+ * @param value The value as it was read.
+ */
+function IsRawSettings(value: unknown): value is RawSettings {
+    return (typeof value === 'object' && value !== null && !Array.isArray(value));
+}
+
+/**
+ * Expects a string.
+ */
+function StringSetting(): SettingParser<string> {
+    return function(value: unknown): string {
+        if (typeof value !== 'string') {
+            throw new Error('Expected a string.');
+        }
+
+        return value;
+    };
+}
+
+/**
+ * Expects a number in a range.
+ * @param min The lowest value allowed.
+ * @param max The highest value allowed.
+ * @param integer Whether the number must be whole.
+ */
+function NumberSetting(min: number = -Infinity, max: number = Infinity, integer: boolean = false): SettingParser<number> {
+    return function(value: unknown): number {
+        if (typeof value !== 'number' || !isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+            const range = (max !== Infinity ? ` in the range of ${min}-${max}` : (min !== -Infinity ? ` of at least ${min}` : ''));
+            throw new Error(`Expected ${integer ? 'a whole number' : 'a number'}${range}.`);
+        }
+
+        return value;
+    };
+}
+
+/**
+ * Expects true or false.
+ */
+function BooleanSetting(): SettingParser<boolean> {
+    return function(value: unknown): boolean {
+        if (typeof value !== 'boolean') {
+            throw new Error('Expected true or false.');
+        }
+
+        return value;
+    };
+}
+
+/**
+ * Expects one of a list of strings.
+ * @param choices The strings allowed.
+ */
+function ChoiceSetting<T extends string>(choices: T[]): SettingParser<T> {
+    return function(value: unknown): T {
+        const choice = choices.find((option) => option === value);
+        if (choice === undefined) {
+            throw new Error(`Expected one of ${choices.join(', ')}.`);
+        }
+
+        return choice;
+    };
+}
+
+/**
+ * Expects a colour in any form ParseColor understands, or three RGB values in
+ * the range of 0-255.
+ */
+function ColorSetting(): SettingParser<Color> {
+    return function(value: unknown): Color {
+        if (Array.isArray(value) && value.length === 3 && value.every((part) => Number.isInteger(part) && part >= 0 && part <= 255)) {
+            return new Color(value[0], value[1], value[2]);
+        }
+
+        if (typeof value !== 'string') {
+            throw new Error('Expected a colour such as "#00c2cb" or a list of three RGB values in the range of 0-255.');
+        }
+
+        return ParseColor(value);
+    };
+}
+
+/**
+ * Expects pixels, or a percentage of the shorter side of the frame such as
+ * "0.5%".
+ */
+function DimensionSetting(): SettingParser<Dimension> {
+    return function(value: unknown): Dimension {
+        if (typeof value === 'number' && value >= 0) {
+            return value;
+        }
+
+        if (typeof value !== 'string') {
+            throw new Error('Expected pixels such as 8, or a percentage such as "0.5%".');
+        }
+
+        return ParseDimension(value);
+    };
+}
+
+/**
+ * Expects a list of values of another setting.
+ * @param item The setting of each value.
+ * @param allowSingle Whether a single value can be given without a list.
+ */
+function ListSetting<T>(item: SettingParser<T>, allowSingle: boolean = false): SettingParser<T[]> {
+    return function(value: unknown, directory: string): T[] {
+        if (!Array.isArray(value)) {
+            if (allowSingle) {
+                return [item(value, directory)];
+            }
+
+            throw new Error('Expected a list.');
+        }
+
+        return value.map(function(part: unknown, index: number) {
+            try {
+                return item(part, directory);
+            }
+            catch (e) {
+                throw new Error(`Item #${index + 1}: ${e.message}`);
+            }
+        });
+    };
+}
+
+/**
+ * Expects a time in seconds, either as a number or as "[[hh:]mm:]ss".
+ */
+function TimeSetting(): SettingParser<number> {
+    return function(value: unknown): number {
+        if (typeof value === 'number' && value >= 0) {
+            return value;
+        }
+
+        if (typeof value === 'string') {
+            try {
+                return ParseTime(value);
+            }
+            catch (e) {
+                // Reported below with what was expected.
+            }
+        }
+
+        throw new Error('Expected seconds of at least 0 or a time such as "01:30".');
+    };
+}
+
+/**
+ * Expects a time like TimeSetting, or "auto".
+ */
+function TimeOrAutoSetting(): SettingParser<number | 'auto'> {
+    const ParseTimeSetting = TimeSetting();
+    return function(value: unknown, directory: string): number | 'auto' {
+        if (value === 'auto') {
+            return value;
+        }
+
+        try {
+            return ParseTimeSetting(value, directory);
+        }
+        catch (e) {
+            throw new Error('Expected seconds of at least 0 or a time such as "01:30", or "auto".');
+        }
+    };
+}
+
+/**
+ * Expects the path of a file, which is relative to the config file.
+ */
+function PathSetting(): SettingParser<string> {
+    return function(value: unknown, directory: string): string {
+        if (typeof value !== 'string' || value === '') {
+            throw new Error('Expected the path of a file.');
+        }
+
+        return path.resolve(directory, value);
+    };
+}
+
+/**
+ * Expects the path of the output, which is relative to the config file, or -
+ * for stdout. Placeholders of output templates are kept for each input to
+ * fill in.
+ */
+function OutputSetting(): SettingParser<string> {
+    const ParsePath = PathSetting();
+    return function(value: unknown, directory: string): string {
+        return (typeof value === 'string' && IsStdio(value) ? value : ParsePath(value, directory));
+    };
+}
+
+/**
+ * Expects "keep", "none" or the path of an audio file.
+ */
+function AudioSetting(): SettingParser<string> {
+    const ParsePath = PathSetting();
+    return function(value: unknown, directory: string): string {
+        return (value === 'keep' || value === 'none' ? value : ParsePath(value, directory));
+    };
+}
+
+/**
+ * Expects a dash pattern, either as "solid", "dash", "dot" or a list of the
+ * sizes of dashes and gaps.
+ */
+function DashSetting(): SettingParser<DashPattern> {
+    const ParseSizes = ListSetting(DimensionSetting());
+    return function(value: unknown, directory: string): DashPattern {
+        if (Array.isArray(value)) {
+            return ParseSizes(value, directory);
+        }
+
+        if (typeof value !== 'string') {
+            throw new Error('Expected "solid", "dash", "dot" or a list of the sizes of dashes and gaps.');
+        }
+
+        return ParseDashPattern(value);
+    };
+}
+
+/**
+ * Expects keyframes, either as a list of {time, position, easing} objects,
+ * inline as "time=position,..." or as the path to a JSON file of them.
+ */
+function KeyframesSetting(): SettingParser<Keyframe[]> {
+    return function(value: unknown, directory: string): Keyframe[] {
+        if (Array.isArray(value)) {
+            return ValidateKeyframes(value);
+        }
+
+        if (typeof value !== 'string') {
+            throw new Error('Expected a list of {time, position} objects, "time=position,..." or the path to a JSON file.');
+        }
+
+        const file = path.resolve(directory, value);
+        return ReadKeyframes(fs.existsSync(file) ? file : value);
+    };
+}
+
+/**
+ * Expects a region, either as "x,y,w,h,name=value,..." like on the command
+ * line or as an object with the same settings.
+ */
+function RegionSetting(): SettingParser<SweepRegion> {
+    const settings = ['x', 'y', 'width', 'height', 'angle', 'shape', 'easing', 'delay', 'length'];
+    return function(value: unknown): SweepRegion {
+        if (typeof value === 'string') {
+            return ParseRegion(value);
+        }
+
+        if (!IsRawSettings(value)) {
+            throw new Error('Expected "x,y,w,h" or an object with an x, y, width and height.');
+        }
+
+        for (let name of Object.keys(value)) {
+            if (settings.indexOf(name) === -1) {
+                throw new Error(`Unknown region setting "${name}". Expected ${settings.join(', ')}.`);
+            }
+        }
+
+        // Goes through the same checks as regions on the command line.
+        const parts = [value.x, value.y, value.width, value.height].map((part) => (part === undefined ? '' : String(part)));
+        for (let name of settings.slice(4)) {
+            if (value[name] !== undefined) {
+                parts.push(`${name}=${value[name]}`);
+            }
+        }
+
+        return ParseRegion(parts.join(','));
+    };
+}
+
+/**
+ * How each setting of a config file is read. The names match the options of
+ * the generator.
+ */
+const CONFIG_SCHEMA: ConfigSchema = {
+    output: OutputSetting(),
+    format: StringSetting(),
+    ffmpegPath: StringSetting(),
+    ffprobePath: StringSetting(),
+    length: TimeOrAutoSetting(),
+    lineDirection: ChoiceSetting(['left', 'right', 'up', 'down']),
+    angle: NumberSetting(),
+    mode: ChoiceSetting(['freeze', 'reveal', 'ping-pong']),
+    effect: ChoiceSetting(EFFECT_NAMES),
+    slitDelay: NumberSetting(1, Infinity, true),
+    jobs: NumberSetting(1, Infinity, true),
+    still: PathSetting(),
+    sweepShape: ChoiceSetting(SWEEP_SHAPE_NAMES),
+    regions: ListSetting(RegionSetting()),
+    easing: StringSetting(),
+    keyframes: KeyframesSetting(),
+    feather: NumberSetting(0),
+    frameCodec: ChoiceSetting(FRAME_CODECS),
+    lineColor: ColorSetting(),
+    lineWidth: DimensionSetting(),
+    glowRadius: DimensionSetting(),
+    glowStrength: NumberSetting(0),
+    glowColor: ColorSetting(),
+    lineGradient: ListSetting(ColorSetting()),
+    lineDash: DashSetting(),
+    haloWidth: DimensionSetting(),
+    haloColor: ColorSetting(),
+    tint: ColorSetting(),
+    desaturate: ChoiceSetting(['grey', 'sepia']),
+    desaturateAmount: NumberSetting(0, 1),
+    brightness: NumberSetting(0),
+    contrast: NumberSetting(0),
+    blur: DimensionSetting(),
+    vignette: NumberSetting(0, 1),
+    treatmentFadeIn: BooleanSetting(),
+    exportMode: ChoiceSetting(['video', 'overlay', 'matte']),
+    sidecar: ListSetting(ChoiceSetting(SIDECAR_FORMATS), true),
+    videoCodec: StringSetting(),
+    crf: NumberSetting(0),
+    bitrate: StringSetting(),
+    preset: StringSetting(),
+    pixelFormat: StringSetting(),
+    fps: NumberSetting(0),
+    audio: AudioSetting(),
+    start: TimeSetting(),
+    leadIn: TimeSetting(),
+    tail: TimeOrAutoSetting(),
+    tailMode: ChoiceSetting(['hold', 'crossfade', 'cut']),
+    crossfade: TimeSetting()
+};
+
+/**
+ * Checks whether a setting of a config file is in the schema.
+ * @param name The name of the setting.
+ */
+function IsSettingName(name: string): name is OptionName {
+    return CONFIG_SCHEMA.hasOwnProperty(name);
+}
+
+/**
+ * Reads a setting of a config file into its option.
+ * @param options The options the setting is read into.
+ * @param name The name of the setting.
+ * @param parser How the setting is read.
+ * @param value The value as it was read.
+ * @param directory The directory relative paths are from.
+ */
+function ParseSetting<Name extends OptionName>(options: ConfigOptions, name: Name, parser: SettingParser<BlueLineGeneratorOptions[Name]>, value: unknown, directory: string) {
+    options[name] = parser(value, directory);
+}
+
+/**
+ * Counts the edits it takes to turn one string into another.
+ * @param a The first string.
+ * @param b The second string.
+ */
+function GetEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; ++i) {
+        const current = [i];
+        for (let j = 1; j <= b.length; ++j) {
+            const cost = (a[i - 1] === b[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+        }
+
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Describes a setting that isn't in the schema, suggesting the one that was
+ * probably meant.
+ * @param name The name of the setting.
+ */
+function DescribeUnknownSetting(name: string): string {
+    let closest: string = null;
+    let closestDistance = Infinity;
+    for (let known of [...Object.keys(CONFIG_SCHEMA), EXTENDS_SETTING]) {
+        const distance = GetEditDistance(name.toLowerCase(), known.toLowerCase());
+        if (distance < closestDistance) {
+            closest = known;
+            closestDistance = distance;
+        }
+    }
+
+    const suggestion = (closestDistance <= Math.max(2, name.length / 3) ? ` Did you mean "${closest}"?` : '');
+    return `"${name}" isn't a setting.${suggestion}`;
+}
+
+/**
+ * Checks the settings of a config file against the schema and turns them into
+ * options. Every problem is reported at once.
+ * @param settings The settings as they were read.
+ * @param source What the settings were read from, for the errors.
+ * @param directory The directory relative paths are from.
+ */
+export function ParseConfig(settings: unknown, source: string, directory: string): ConfigOptions {
+    if (settings === null || settings === undefined) {
+        // An empty file.
+        return {};
+    }
+
+    if (!IsRawSettings(settings)) {
+        throw new Error(`The config "${source}" must hold an object of settings.`);
+    }
+
+    const options: ConfigOptions = {};
+    const errors: string[] = [];
+    for (let name of Object.keys(settings)) {
+        if (name === EXTENDS_SETTING) {
+            continue;
+        }
+
+        if (!IsSettingName(name)) {
+            errors.push(DescribeUnknownSetting(name));
+            continue;
+        }
+
+        try {
+            ParseSetting(options, name, CONFIG_SCHEMA[name], settings[name], directory);
+        }
+        catch (e) {
+            errors.push(`"${name}" is invalid: ${e.message}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`The config "${source}" has ${errors.length === 1 ? 'a problem' : 'problems'}:\n` + errors.map((error) => `  - ${error}`).join('\n'));
+    }
+
+    return options;
+}
+
+/**
+ * Reads the settings of a JSON or YAML file.
+ * @param file The path of the file.
+ */
+function ReadSettings(file: string): unknown {
+    let text: string;
+    try {
+        text = fs.readFileSync(file, { encoding: 'utf-8' });
+    }
+    catch (e) {
+        throw new Error(`Failed to read config "${file}": ${e.message}`);
+    }
+
+    const extension = path.extname(file).toLowerCase();
+    try {
+        // JSON is YAML too, but its own parser gives clearer errors.
+        return (extension === '.yaml' || extension === '.yml' ? YAML.parse(text) : JSON.parse(text));
+    }
+    catch (e) {
+        throw new Error(`Failed to parse config "${file}": ${e.message}`);
+    }
+}
+
+/**
+ * Reads a config, along with the presets it builds on.
+ * @param settings The settings as they were read.
+ * @param source What the settings were read from, for the errors.
+ * @param directory The directory relative paths are from.
+ * @param chain The presets already being read, to catch ones that build on
+ * themselves.
+ */
+function ResolveConfig(settings: unknown, source: string, directory: string, chain: string[]): ConfigOptions {
+    const options = ParseConfig(settings, source, directory);
+    const base = (IsRawSettings(settings) ? settings[EXTENDS_SETTING] : undefined);
+    if (base === undefined) {
+        return options;
+    }
+
+    if (typeof base !== 'string') {
+        throw new Error(`The config "${source}" has a problem:\n  - "${EXTENDS_SETTING}" is invalid: Expected the name of a preset.`);
+    }
+
+    return MergeOptions([ReadPreset(base, chain)], options);
+}
+
+/**
+ * Finds the file of one of the presets of the user.
+ * @param name The name of the preset.
+ * @returns The path of the file, or null if there isn't one.
+ */
+function FindPresetFile(name: string): string {
+    for (let extension of CONFIG_EXTENSIONS) {
+        const file = path.join(PRESET_DIRECTORY, name + extension);
+        if (fs.existsSync(file)) {
+            return file;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Reads a preset of the user, or a built in one.
+ * @param name The name of the preset.
+ * @param chain The presets already being read.
+ */
+function ReadPreset(name: string, chain: string[]): ConfigOptions {
+    if (chain.indexOf(name) !== -1) {
+        throw new Error(`The preset "${name}" builds on itself through ${[...chain, name].map((link) => `"${link}"`).join(' -> ')}.`);
+    }
+
+    const file = FindPresetFile(name);
+    if (file) {
+        return ResolveConfig(ReadSettings(file), file, path.dirname(file), [...chain, name]);
+    }
+
+    if (BUILT_IN_PRESETS.hasOwnProperty(name)) {
+        return ResolveConfig(BUILT_IN_PRESETS[name], `preset ${name}`, process.cwd(), [...chain, name]);
+    }
+
+    throw new Error(`Unknown preset "${name}". Expected one of ${ListPresets().join(', ')}, or a file named after it in "${PRESET_DIRECTORY}".`);
+}
+
+/**
+ * Lists the names of the presets, both built in and of the user.
+ */
+export function ListPresets(): string[] {
+    const names = Object.keys(BUILT_IN_PRESETS);
+    const files = (fs.existsSync(PRESET_DIRECTORY) ? fs.readdirSync(PRESET_DIRECTORY) : []);
+    for (let file of files) {
+        const extension = path.extname(file);
+        const name = path.basename(file, extension);
+        if (CONFIG_EXTENSIONS.indexOf(extension.toLowerCase()) !== -1 && names.indexOf(name) === -1) {
+            names.push(name);
+        }
+    }
+
+    return names.sort();
+}
+
+/**
+ * Reads the options of a preset.
+ * @param name The name of the preset. The presets of the user are looked for
+ * in PRESET_DIRECTORY first.
+ */
+export function LoadPreset(name: string): ConfigOptions {
+    return ReadPreset(name, []);
+}
+
+/**
+ * Reads the options of a JSON or YAML config file. Relative paths in it are
+ * from the directory of the file.
+ * @param file The path of the file.
+ */
+export function LoadConfigFile(file: string): ConfigOptions {
+    if (!fs.existsSync(file)) {
+        throw new Error(`The config "${file}" doesn't exist.`);
+    }
+
+    return ResolveConfig(ReadSettings(file), file, path.dirname(path.resolve(file)), []);
+}
+
+/**
+ * Copies an option unless it's undefined.
+ * @param to The options copied to.
+ * @param from The options copied from.
+ * @param name The name of the option.
+ */
+function CopyOption<Name extends OptionName>(to: ConfigOptions, from: ConfigOptions, name: Name) {
+    if (from[name] !== undefined) {
+        to[name] = from[name];
+    }
+}
+
+/**
+ * Merges options over the settings of configs. Options left undefined don't
+ * replace anything.
+ * @param layers The options read from configs, from the weakest to the
+ * strongest.
+ * @param options The strongest options, such as the ones given as arguments.
+ * @returns A copy of the strongest options with the ones they left undefined
+ * filled in.
+ */
+export function MergeOptions<T extends ConfigOptions>(layers: ConfigOptions[], options: T): T {
+    const merged = { ...options };
+    for (let layer of layers) {
+        for (let name of Object.keys(layer)) {
+            if (IsSettingName(name) && options[name] === undefined) {
+                CopyOption(merged, layer, name);
+            }
+        }
+    }
+
+    return merged;
+}
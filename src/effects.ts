@@ -0,0 +1,640 @@
+/**
+ * @file Module for the effects that composite the frames.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { createCanvas, Canvas, SKRSContext2D, Image } from '@napi-rs/canvas';
+import { Frame } from './frames';
+import { FrameState, FrozenArea, FrozenTreatment, RegionGeometry } from './frozenarea';
+import { HalfPlane, Point, Rectangle, Size } from './geom';
+import { AddPolygonToPath } from './paths';
+
+/**
+ * The name of an effect.
+ */
+export type EffectName = ('blueline' | 'slit-scan' | 'smear');
+
+/**
+ * Names of all the effects.
+ */
+export const EFFECT_NAMES: EffectName[] = ['blueline', 'slit-scan', 'smear'];
+
+/**
+ * Which part of the output a frame is in.
+ */
+export type EffectPhase = ('lead-in' | 'sweep' | 'tail');
+
+/**
+ * A frame as the effect carries what it keeps from one frame to the next.
+ */
+export interface EffectFrame {
+    /**
+     * The frame of the input.
+     */
+    image: Frame;
+
+    /**
+     * The latest frames of the input, including this one.
+     */
+    history: FrameHistory;
+
+    /**
+     * What the frame shows.
+     */
+    state: FrameState;
+
+    /**
+     * Which part of the output the frame is in.
+     */
+    phase: EffectPhase;
+
+    /**
+     * The number of the frame in its phase, starting at 0.
+     */
+    phaseFrameNum: number;
+}
+
+/**
+ * Images a frame is composited from besides the frame of the input, by name.
+ */
+export type EffectLayers = { [name: string]: Canvas };
+
+/**
+ * Everything an effect gets for compositing a frame of the output.
+ */
+export interface CompositeFrame {
+    /**
+     * The frame of the input.
+     */
+    image: Frame;
+
+    /**
+     * The layers the effect made for the frame when advancing.
+     */
+    layers: EffectLayers;
+
+    /**
+     * What the frame shows.
+     */
+    state: FrameState;
+
+    /**
+     * Which part of the output the frame is in.
+     */
+    phase: EffectPhase;
+
+    /**
+     * The number of the frame in its phase, starting at 0.
+     */
+    phaseFrameNum: number;
+}
+
+/**
+ * Composites the frames of the output in two steps. Advancing carries what
+ * depends on earlier frames and runs on every frame in order. Compositing
+ * only depends on what it's given, so it can run out of order on another
+ * instance of the effect with the same settings, such as on another thread.
+ * The line is drawn on top afterwards.
+ */
+export interface Effect {
+    /**
+     * How many of the latest frames of the input the effect needs, including
+     * the current one. 0 keeps none.
+     */
+    readonly HistoryLength: number;
+
+    /**
+     * Moves on to a frame.
+     * @param frame The frame.
+     * @returns The layers to composite the frame from. They're only valid
+     * until the next call.
+     */
+    Advance(frame: EffectFrame): EffectLayers;
+
+    /**
+     * Draws a whole frame of the output.
+     * @param frame The frame to composite.
+     * @param context The context of the output to draw on.
+     */
+    Composite(frame: CompositeFrame, context: SKRSContext2D): void;
+}
+
+/**
+ * Settings of the built-in effects.
+ */
+export interface EffectSettings {
+    /**
+     * Whether everything starts frozen and the line uncovers live video.
+     */
+    reveal: boolean;
+
+    /**
+     * The image the reveal starts frozen on, or null for the first frame of
+     * the sweep. It's only needed for advancing.
+     */
+    still: Image;
+
+    /**
+     * How many frames back the slit-scan effect reaches at the far side of a
+     * region.
+     */
+    slitDelay: number;
+}
+
+/**
+ * Creates an effect once the size of the frames is known.
+ * @param frameSize The size of the frames.
+ * @param area Draws the frozen and live parts of the frames. It's kept up to
+ * date with the frozen area of each frame.
+ * @param treatment Treats the frozen area.
+ */
+export type EffectFactory = (frameSize: Size, area: FrozenArea, treatment: FrozenTreatment) => Effect;
+
+/**
+ * Creates one of the built-in effects.
+ * @param name The name of the effect.
+ * @param settings The settings of the effect.
+ * @param frameSize The size of the frames.
+ * @param area Draws the frozen and live parts of the frames.
+ * @param treatment Treats the frozen area.
+ */
+export function CreateEffect(name: EffectName, settings: EffectSettings, frameSize: Size, area: FrozenArea, treatment: FrozenTreatment): Effect {
+    switch (name) {
+        case 'slit-scan': {
+            return new SlitScanEffect(frameSize, area, treatment, settings.slitDelay);
+        }
+        case 'smear': {
+            return new SmearEffect(frameSize, area, treatment);
+        }
+        default: {
+            return new BlueLineEffect(frameSize, area, treatment, settings.reveal, settings.still);
+        }
+    }
+}
+
+/**
+ * Keeps copies of the latest frames of the input.
+ */
+export class FrameHistory {
+    /**
+     * The copies, reused in a ring.
+     */
+    private frames: Canvas[] = [];
+
+    /**
+     * The most frames kept.
+     */
+    private capacity: number;
+
+    /**
+     * The size of the frames.
+     */
+    private frameSize: Size;
+
+    /**
+     * Index of the newest frame.
+     */
+    private newest = -1;
+
+    /**
+     * Number of frames kept so far.
+     */
+    private count = 0;
+
+    /**
+     * @param capacity The most frames kept. 0 keeps none.
+     * @param frameSize The size of the frames.
+     */
+    constructor(capacity: number, frameSize: Size) {
+        this.capacity = capacity;
+        this.frameSize = frameSize;
+    }
+
+    /**
+     * Number of frames kept.
+     */
+    public get Length(): number {
+        return this.count;
+    }
+
+    /**
+     * Adds a copy of a frame, dropping the oldest one if it's full.
+     * @param image The frame.
+     */
+    public Push(image: Frame) {
+        if (this.capacity === 0) {
+            return;
+        }
+
+        this.newest = (this.newest + 1) % this.capacity;
+        if (!this.frames[this.newest]) {
+            this.frames[this.newest] = createCanvas(this.frameSize.Width, this.frameSize.Height);
+            this.frames[this.newest].getContext('2d').globalCompositeOperation = 'copy';
+        }
+
+        this.frames[this.newest].getContext('2d').drawImage(image, 0, 0);
+        this.count = Math.min(this.count + 1, this.capacity);
+    }
+
+    /**
+     * Gets one of the frames.
+     * @param age How many frames back it is, where 0 is the newest. It's
+     * limited to the oldest one kept.
+     * @returns The frame, or null if none are kept.
+     */
+    public Get(age: number): Canvas {
+        if (this.count === 0) {
+            return null;
+        }
+
+        age = Math.min(Math.max(0, Math.round(age)), this.count - 1);
+        return this.frames[(this.newest - age + this.capacity) % this.capacity];
+    }
+}
+
+/**
+ * Freezes what the line passes. The original effect.
+ */
+export class BlueLineEffect implements Effect {
+    public readonly HistoryLength = 0;
+
+    /**
+     * Draws the frozen and live parts of the frames.
+     */
+    private area: FrozenArea;
+
+    /**
+     * Treats the frozen area.
+     */
+    private treatment: FrozenTreatment;
+
+    /**
+     * Whether everything starts frozen and the line uncovers live video.
+     */
+    private reveal: boolean;
+
+    /**
+     * The image the reveal starts frozen on, or null for the first frame of
+     * the sweep.
+     */
+    private still: Image;
+
+    /**
+     * The canvas that does the freeze effect.
+     */
+    private effectCanvas: Canvas;
+
+    /**
+     * The treated frozen frame held during the tail.
+     */
+    private heldCanvas: Canvas = null;
+
+    /**
+     * @param frameSize The size of the frames.
+     * @param area Draws the frozen and live parts of the frames.
+     * @param treatment Treats the frozen area.
+     * @param reveal Whether everything starts frozen and the line uncovers
+     * live video.
+     * @param still The image the reveal starts frozen on, or null for the first
+     * frame of the sweep.
+     */
+    constructor(frameSize: Size, area: FrozenArea, treatment: FrozenTreatment, reveal: boolean, still: Image) {
+        this.area = area;
+        this.treatment = treatment;
+        this.reveal = reveal;
+        this.still = still;
+        this.effectCanvas = createCanvas(frameSize.Width, frameSize.Height);
+    }
+
+    public Advance(frame: EffectFrame): EffectLayers {
+        const { image, state } = frame;
+        if (frame.phase === 'lead-in') {
+            return {};
+        }
+
+        const effectContext = this.effectCanvas.getContext('2d');
+        if (frame.phase === 'sweep') {
+            if (frame.phaseFrameNum === 0 && this.reveal) {
+                // Everything starts frozen.
+                effectContext.drawImage(this.still || image, 0, 0, this.effectCanvas.width, this.effectCanvas.height);
+            }
+
+            // Only the part that isn't frozen takes the new frame.
+            this.area.DrawLive(effectContext, image, state.geometry);
+            return { frozen: this.effectCanvas };
+        }
+
+        if (frame.phaseFrameNum === 0) {
+            // Nothing new freezes during the tail, so treat it once.
+            if (!this.heldCanvas) {
+                this.heldCanvas = createCanvas(this.effectCanvas.width, this.effectCanvas.height);
+            }
+
+            const heldContext = this.heldCanvas.getContext('2d');
+            heldContext.globalCompositeOperation = 'copy';
+            heldContext.drawImage(this.treatment.Apply(this.effectCanvas, state.geometry), 0, 0);
+        }
+
+        return { held: this.heldCanvas };
+    }
+
+    public Composite(frame: CompositeFrame, context: SKRSContext2D) {
+        const { image, layers, state } = frame;
+        if (frame.phase === 'lead-in') {
+            // Lead-in frames go out untouched.
+            context.drawImage(image, 0, 0);
+        }
+        else if (frame.phase === 'sweep') {
+            context.clearRect(0, 0, image.width, image.height);
+            context.drawImage(this.treatment.Apply(layers.frozen, state.geometry), 0, 0);
+        }
+        else {
+            // Only the frozen area is held, so anything outside of the regions
+            // keeps playing.
+            context.drawImage(image, 0, 0);
+            if (state.frozenAlpha > 0) {
+                context.globalAlpha = state.frozenAlpha;
+                this.area.DrawFrozen(context, layers.held, state.geometry);
+                context.globalAlpha = 1;
+            }
+        }
+    }
+}
+
+/**
+ * Fills the frozen area with slices of past frames. The further a slice is
+ * from the line, the further back in time it's taken from, so motion smears
+ * out into trails behind it.
+ */
+export class SlitScanEffect implements Effect {
+    public readonly HistoryLength: number;
+
+    /**
+     * Draws the frozen part of the frames.
+     */
+    private area: FrozenArea;
+
+    /**
+     * Treats the frozen area.
+     */
+    private treatment: FrozenTreatment;
+
+    /**
+     * How many frames back the slices furthest from the line are.
+     */
+    private maxDelay: number;
+
+    /**
+     * The canvas the slices are put together on.
+     */
+    private scanCanvas: Canvas;
+
+    /**
+     * @param frameSize The size of the frames.
+     * @param area Draws the frozen part of the frames.
+     * @param treatment Treats the frozen area.
+     * @param maxDelay How many frames back the slices furthest from the line
+     * are.
+     */
+    constructor(frameSize: Size, area: FrozenArea, treatment: FrozenTreatment, maxDelay: number) {
+        this.area = area;
+        this.treatment = treatment;
+        this.maxDelay = maxDelay;
+        this.HistoryLength = maxDelay + 1;
+        this.scanCanvas = createCanvas(frameSize.Width, frameSize.Height);
+    }
+
+    public Advance(frame: EffectFrame): EffectLayers {
+        const geometry = frame.state.geometry;
+        if (!geometry || frame.state.frozenAlpha <= 0) {
+            return {};
+        }
+
+        // Slices next to the line are from the current frame.
+        const scanContext = this.scanCanvas.getContext('2d');
+        scanContext.drawImage(frame.image, 0, 0);
+        for (let region of geometry.regions) {
+            const axis = GetSweepAxis(region);
+            const offsets = GetLineOffsets(region, axis);
+            const range = region.bounds.ToPolygon().Project(axis);
+            const step = (range[1] - range[0]) / this.maxDelay;
+            offsets.forEach((offset: number, index: number) => {
+                // Each line looks after the part of the region closer to it
+                // than to the other lines.
+                const start = (index === 0 ? range[0] : (offsets[index - 1] + offset) / 2);
+                const end = (index === offsets.length - 1 ? range[1] : (offset + offsets[index + 1]) / 2);
+                for (let delay = 1; delay <= this.maxDelay; ++delay) {
+                    const source = frame.history.Get(delay);
+                    const near = (delay - 0.5) * step;
+                    const far = (delay === this.maxDelay ? Infinity : (delay + 0.5) * step);
+                    DrawSlice(scanContext, source, region.bounds, axis, Math.max(start, offset - far), offset - near);
+                    DrawSlice(scanContext, source, region.bounds, axis, offset + near, Math.min(end, offset + far));
+                }
+            });
+        }
+
+        return { scan: this.scanCanvas };
+    }
+
+    public Composite(frame: CompositeFrame, context: SKRSContext2D) {
+        const { geometry, frozenAlpha } = frame.state;
+        context.drawImage(frame.image, 0, 0);
+        if (!geometry || frozenAlpha <= 0) {
+            return;
+        }
+
+        context.globalAlpha = frozenAlpha;
+        this.area.DrawFrozen(context, this.treatment.Apply(frame.layers.scan, geometry), geometry);
+        context.globalAlpha = 1;
+    }
+}
+
+/**
+ * Fills the frozen area by stretching what's under the line across it, as if
+ * the line dragged the pixels along with it.
+ */
+export class SmearEffect implements Effect {
+    public readonly HistoryLength = 0;
+
+    /**
+     * Draws the frozen part of the frames.
+     */
+    private area: FrozenArea;
+
+    /**
+     * Treats the frozen area.
+     */
+    private treatment: FrozenTreatment;
+
+    /**
+     * The canvas the smear is drawn on.
+     */
+    private smearCanvas: Canvas;
+
+    /**
+     * @param frameSize The size of the frames.
+     * @param area Draws the frozen part of the frames.
+     * @param treatment Treats the frozen area.
+     */
+    constructor(frameSize: Size, area: FrozenArea, treatment: FrozenTreatment) {
+        this.area = area;
+        this.treatment = treatment;
+        this.smearCanvas = createCanvas(frameSize.Width, frameSize.Height);
+    }
+
+    public Advance(frame: EffectFrame): EffectLayers {
+        // Every frame is smeared from itself alone.
+        return {};
+    }
+
+    public Composite(frame: CompositeFrame, context: SKRSContext2D) {
+        const { geometry, frozenAlpha } = frame.state;
+        context.drawImage(frame.image, 0, 0);
+        if (!geometry || frozenAlpha <= 0) {
+            return;
+        }
+
+        const smearContext = this.smearCanvas.getContext('2d');
+        smearContext.drawImage(frame.image, 0, 0);
+        for (let region of geometry.regions) {
+            const offsets = GetLineOffsets(region, GetSweepAxis(region));
+            if (offsets.length > 0) {
+                this.SmearRegion(smearContext, region, offsets);
+            }
+        }
+
+        context.globalAlpha = frozenAlpha;
+        this.area.DrawFrozen(context, this.treatment.Apply(this.smearCanvas, geometry), geometry);
+        context.globalAlpha = 1;
+    }
+
+    /**
+     * Replaces every pixel of a region with the one on the closest line,
+     * moving straight along the axis of the sweep.
+     * @param smearContext The context holding the frame.
+     * @param region The region.
+     * @param offsets Positions of the lines along the axis, in order.
+     */
+    private SmearRegion(smearContext: SKRSContext2D, region: RegionGeometry, offsets: number[]) {
+        const axis = GetSweepAxis(region);
+        const frameRect = new Rectangle(0, 0, this.smearCanvas.width, this.smearCanvas.height);
+        const bounds = region.bounds.Intersect(frameRect);
+        const left = Math.floor(bounds.X);
+        const top = Math.floor(bounds.Y);
+        const width = Math.ceil(bounds.X + bounds.Width) - left;
+        const height = Math.ceil(bounds.Y + bounds.Height) - top;
+        if (width <= 0 || height <= 0) {
+            return;
+        }
+
+        const source = smearContext.getImageData(left, top, width, height);
+        const smeared = smearContext.createImageData(width, height);
+        for (let y = 0; y < height; ++y) {
+            for (let x = 0; x < width; ++x) {
+                const pixelX = left + x + 0.5;
+                const pixelY = top + y + 0.5;
+                const position = pixelX * axis.X + pixelY * axis.Y;
+                let offset = offsets[0];
+                for (let candidate of offsets) {
+                    if (Math.abs(candidate - position) < Math.abs(offset - position)) {
+                        offset = candidate;
+                    }
+                }
+
+                const sourceX = Math.min(Math.max(0, Math.floor(pixelX + (offset - position) * axis.X) - left), width - 1);
+                const sourceY = Math.min(Math.max(0, Math.floor(pixelY + (offset - position) * axis.Y) - top), height - 1);
+                const from = (sourceY * width + sourceX) * 4;
+                const to = (y * width + x) * 4;
+                smeared.data[to] = source.data[from];
+                smeared.data[to + 1] = source.data[from + 1];
+                smeared.data[to + 2] = source.data[from + 2];
+                smeared.data[to + 3] = source.data[from + 3];
+            }
+        }
+
+        smearContext.putImageData(smeared, left, top);
+    }
+}
+
+/**
+ * Gets the direction a region is swept in, which is the direction slices and
+ * smears are measured along.
+ * @param region The region.
+ * @returns A unit vector.
+ */
+function GetSweepAxis(region: RegionGeometry): Point {
+    return HalfPlane.FromAngle(region.angle, 0).Normal;
+}
+
+/**
+ * Gets where the lines of a region are along the axis of the sweep, measured
+ * at the middle of each line.
+ * @param region The region.
+ * @param axis The axis of the sweep.
+ * @returns The positions in order.
+ */
+function GetLineOffsets(region: RegionGeometry, axis: Point): number[] {
+    return region.lines.map(function(line: Point[]): number {
+        const first = line[0];
+        const last = line[line.length - 1];
+        return (first.X + last.X) / 2 * axis.X + (first.Y + last.Y) / 2 * axis.Y;
+    }).sort((a, b) => a - b);
+}
+
+/**
+ * Draws the slice of an image between two positions along an axis, inside
+ * of a box.
+ * @param context The context to draw on.
+ * @param source The image.
+ * @param bounds The box.
+ * @param axis The axis.
+ * @param from Where the slice starts along the axis.
+ * @param to Where the slice ends along the axis.
+ */
+function DrawSlice(context: SKRSContext2D, source: Canvas, bounds: Rectangle, axis: Point, from: number, to: number) {
+    if (to <= from) {
+        return;
+    }
+
+    // Slices overlap the next one by a pixel, so their soft edges don't leave
+    // seams where they meet.
+    const slice = bounds.ToPolygon()
+        .ClipToHalfPlane(new HalfPlane(axis, from))
+        .ClipToHalfPlane(new HalfPlane(axis, to + 1).Flip());
+    if (slice.IsEmpty) {
+        return;
+    }
+
+    // Only copy the part of the image the slice covers.
+    const box = slice.GetBounds();
+    const left = Math.max(0, Math.floor(box.TopLeft.X));
+    const top = Math.max(0, Math.floor(box.TopLeft.Y));
+    const width = Math.min(source.width, Math.ceil(box.BottomRight.X)) - left;
+    const height = Math.min(source.height, Math.ceil(box.BottomRight.Y)) - top;
+    if (width <= 0 || height <= 0) {
+        return;
+    }
+
+    context.save();
+    context.beginPath();
+    AddPolygonToPath(context, slice);
+    context.clip();
+    context.drawImage(source, left, top, width, height, left, top, width, height);
+    context.restore();
+}
@@ -0,0 +1,264 @@
+/**
+ * @file Module for the settings FFmpeg encodes the output with.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import * as path from 'path';
+import { Size } from './geom';
+
+/**
+ * The codecs used for an output container.
+ */
+export interface ContainerDefaults {
+    /**
+     * The video codec.
+     */
+    videoCodec: string;
+
+    /**
+     * The audio codec, or null if the container has no audio.
+     */
+    audioCodec: string;
+}
+
+/**
+ * How the video of the output is encoded.
+ */
+export interface EncoderSettings {
+    /**
+     * The FFmpeg name of the video codec.
+     */
+    videoCodec: string;
+
+    /**
+     * The constant rate factor, where lower is better quality.
+     */
+    crf: number;
+
+    /**
+     * The target bitrate, such as "8M".
+     */
+    bitrate: string;
+
+    /**
+     * The speed preset of the encoder, such as "slow".
+     */
+    preset: string;
+
+    /**
+     * The pixel format of the output.
+     */
+    pixelFormat: string;
+}
+
+/**
+ * The pixel format used by default, which every player supports.
+ */
+export const DEFAULT_PIXEL_FORMAT = 'yuv420p';
+
+/**
+ * The codecs used for the containers picked by the output extension.
+ */
+const CONTAINER_DEFAULTS: { [extension: string]: ContainerDefaults } = {
+    '.mp4': { videoCodec: 'libx264', audioCodec: 'aac' },
+    '.m4v': { videoCodec: 'libx264', audioCodec: 'aac' },
+    '.mkv': { videoCodec: 'libx264', audioCodec: 'aac' },
+    '.mov': { videoCodec: 'libx264', audioCodec: 'aac' },
+    '.webm': { videoCodec: 'libvpx-vp9', audioCodec: 'libopus' },
+    '.gif': { videoCodec: 'gif', audioCodec: null },
+    '.png': { videoCodec: 'png', audioCodec: null },
+    '.jpg': { videoCodec: 'mjpeg', audioCodec: null },
+    '.jpeg': { videoCodec: 'mjpeg', audioCodec: null }
+};
+
+/**
+ * The codecs used for containers that can hold transparency.
+ */
+const ALPHA_CONTAINER_DEFAULTS: { [extension: string]: ContainerDefaults } = {
+    '.mov': { videoCodec: 'prores_ks', audioCodec: null },
+    '.mkv': { videoCodec: 'prores_ks', audioCodec: null },
+    '.webm': { videoCodec: 'libvpx-vp9', audioCodec: null },
+    '.png': { videoCodec: 'png', audioCodec: null }
+};
+
+/**
+ * Pixel formats of codecs that don't use the default one.
+ */
+const CODEC_PIXEL_FORMATS: { [codec: string]: string } = {
+    'prores_ks': 'yuv422p10le',
+    'prores': 'yuv422p10le',
+    'png': 'rgb24',
+    'mjpeg': 'yuvj420p',
+    'gif': null
+};
+
+/**
+ * Pixel formats of codecs when keeping transparency.
+ */
+const CODEC_ALPHA_PIXEL_FORMATS: { [codec: string]: string } = {
+    'prores_ks': 'yuva444p10le',
+    'libvpx-vp9': 'yuva420p',
+    'png': 'rgba',
+    'qtrle': 'argb'
+};
+
+/**
+ * Builds a GIF with a palette made from all of its frames, which looks far
+ * better than the generic one. The palette is generated from a copy of the
+ * frames before they're mapped onto it.
+ */
+const GIF_FILTER = '[0:v]split[frames][palette_frames];' +
+                   '[palette_frames]palettegen=stats_mode=diff[palette];' +
+                   '[frames][palette]paletteuse=dither=sierra2_4a';
+
+/**
+ * Extensions of the containers written by FFmpeg formats that have different
+ * names.
+ */
+const FORMAT_EXTENSIONS: { [format: string]: string } = {
+    'matroska': '.mkv',
+    'ipod': '.m4v'
+};
+
+/**
+ * Formats that need to be fragmented to be written to a pipe, since they
+ * normally go back to the start to write their index.
+ */
+const FRAGMENTED_FORMATS = ['mp4', 'mov', 'ipod'];
+
+/**
+ * Gets the codecs for the container picked by the format, or by the extension
+ * of the output if no format is given. Unknown containers get the codecs of
+ * MP4.
+ * @param output The path of the output.
+ * @param alpha Whether the output keeps transparency.
+ * @param format The FFmpeg name of the format of the output.
+ * @returns The codecs, or null if the container can't keep transparency.
+ */
+export function GetContainerDefaults(output: string, alpha: boolean = false, format: string = null): ContainerDefaults {
+    const extension = (format ? FORMAT_EXTENSIONS[format] || '.' + format : path.extname(output).toLowerCase());
+    if (alpha) {
+        return ALPHA_CONTAINER_DEFAULTS[extension] || null;
+    }
+
+    return CONTAINER_DEFAULTS[extension] || CONTAINER_DEFAULTS['.mp4'];
+}
+
+/**
+ * Gets the pixel format a video codec uses by default.
+ * @param videoCodec The FFmpeg name of the video codec.
+ * @param alpha Whether the output keeps transparency.
+ * @returns The pixel format, or null if the codec picks its own.
+ */
+export function GetDefaultPixelFormat(videoCodec: string, alpha: boolean = false): string {
+    if (alpha) {
+        return CODEC_ALPHA_PIXEL_FORMATS[videoCodec] || null;
+    }
+
+    return (videoCodec in CODEC_PIXEL_FORMATS ? CODEC_PIXEL_FORMATS[videoCodec] : DEFAULT_PIXEL_FORMAT);
+}
+
+/**
+ * Whether an output is a sequence of numbered images rather than a video.
+ * @param output The path of the output.
+ */
+export function IsImageSequence(output: string): boolean {
+    return ['.png', '.jpg', '.jpeg', '.bmp', '.tif', '.tiff'].indexOf(path.extname(output).toLowerCase()) !== -1;
+}
+
+/**
+ * Checks the encoder settings, throwing if any are invalid.
+ * @param settings The settings.
+ */
+export function ValidateEncoderSettings(settings: EncoderSettings) {
+    if (settings.crf !== undefined && settings.crf !== null && !(settings.crf >= 0)) {
+        throw new Error(`Invalid CRF "${settings.crf}". It must be a number of at least 0.`);
+    }
+
+    if (settings.bitrate && !/^\d+(\.\d+)?[kmg]?$/i.test(settings.bitrate)) {
+        throw new Error(`Invalid bitrate "${settings.bitrate}". Expected bits per second such as 8M or 2500k.`);
+    }
+}
+
+/**
+ * Gets the FFmpeg arguments that encode the video of the output.
+ * @param settings The encoder settings.
+ * @param frameSize The size of the frames.
+ */
+export function GetVideoEncoderArgs(settings: EncoderSettings, frameSize: Size): string[] {
+    if (settings.videoCodec === 'gif') {
+        return ['-filter_complex', GIF_FILTER];
+    }
+
+    const args = ['-c:v', settings.videoCodec];
+    if (settings.preset) {
+        args.push('-preset', settings.preset);
+    }
+
+    if (settings.crf !== undefined && settings.crf !== null) {
+        args.push('-crf', settings.crf.toString());
+        if (settings.videoCodec === 'libvpx-vp9' && !settings.bitrate) {
+            // VP9 only uses the CRF alone when the bitrate is 0.
+            args.push('-b:v', '0');
+        }
+    }
+
+    if (settings.bitrate) {
+        args.push('-b:v', settings.bitrate);
+    }
+
+    if (settings.videoCodec === 'prores_ks' && /^yuva?444/.test(settings.pixelFormat || '')) {
+        // ProRes only keeps full chroma and alpha in its 4444 profile.
+        args.push('-profile:v', '4444');
+    }
+
+    if (settings.pixelFormat) {
+        // Subsampled chroma needs sizes divisible by 2, so drop the odd pixel.
+        const evenWidth = /4[12]0|422|411/.test(settings.pixelFormat);
+        const evenHeight = /4[12]0/.test(settings.pixelFormat);
+        const width = (evenWidth ? frameSize.Width - frameSize.Width % 2 : frameSize.Width);
+        const height = (evenHeight ? frameSize.Height - frameSize.Height % 2 : frameSize.Height);
+        if (width !== frameSize.Width || height !== frameSize.Height) {
+            args.push('-vf', `crop=${width}:${height}:0:0`);
+        }
+
+        args.push('-pix_fmt', settings.pixelFormat);
+    }
+
+    return args;
+}
+
+/**
+ * Gets the FFmpeg arguments that pick the format of the output.
+ * @param format The FFmpeg name of the format, or null to pick it from the
+ * extension of the output.
+ * @param piped Whether the output is written to a pipe.
+ */
+export function GetFormatArgs(format: string, piped: boolean): string[] {
+    if (!format) {
+        return [];
+    }
+
+    const args = ['-f', format];
+    if (piped && FRAGMENTED_FORMATS.indexOf(format) !== -1) {
+        args.push('-movflags', 'frag_keyframe+empty_moov');
+    }
+
+    return args;
+}
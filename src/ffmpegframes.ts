@@ -0,0 +1,532 @@
+/**
+ * @file Module for reading and writing frames with FFmpeg.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { createCanvas, loadImage, Canvas } from '@napi-rs/canvas';
+import * as child from 'child_process';
+import { once } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EncodeFrame, Frame, FrameCodec, FrameEncoding, FrameErrorHandler, FrameSink, FrameSource } from './frames';
+import { FrameParser, JpegFrameParser, PngFrameParser, RawFrameParser } from './frameparser';
+import { Size } from './geom';
+import { MediaInfo, ProbeImageSequence, ProbeMedia } from './probe';
+import { FormatSequencePath, ImageSequence, IsSequencePattern } from './sequence';
+import { IsStdio } from './stdio';
+
+/**
+ * The most frames held in memory between extracting and processing them.
+ * Extraction is paused while the queue is full.
+ */
+const MAX_QUEUED_FRAMES = 8;
+
+/**
+ * Milliseconds a stopped process gets to exit before it's killed outright.
+ */
+const STOP_TIMEOUT = 2000;
+
+/**
+ * Gets the FFmpeg arguments describing the format of piped frames.
+ * @param frameCodec The codec of the frames.
+ * @param frameSize The size of the frames. Only needed for reading raw frames
+ * as input.
+ * @param isInput Whether the arguments are for reading the frames as input.
+ */
+function GetFrameFormatArgs(frameCodec: FrameCodec, frameSize: Size, isInput: boolean): string[] {
+    if (frameCodec === 'rawvideo') {
+        const args = ['-f', 'rawvideo', '-pix_fmt', 'rgba'];
+        if (isInput) {
+            args.push('-s', `${frameSize.Width}x${frameSize.Height}`);
+        }
+
+        return args;
+    }
+
+    return ['-f', 'image2pipe', '-c:v', frameCodec];
+}
+
+/**
+ * Waits for a process to exit, stopping it first if it's still running.
+ * @param proc The process.
+ */
+async function StopProcess(proc: child.ChildProcess) {
+    if (proc && proc.exitCode === null && proc.signalCode === null) {
+        const closed = once(proc, 'close').catch(() => null);
+
+        // FFmpeg only notices it was asked to stop once it stops waiting on
+        // its input.
+        if (proc.stdin) {
+            proc.stdin.destroy();
+        }
+
+        proc.kill();
+        const timer = setTimeout(() => proc.kill('SIGKILL'), STOP_TIMEOUT);
+        await closed;
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Reads the frames of a video or image sequence by piping them out of FFmpeg.
+ */
+export class FfmpegFrameSource implements FrameSource {
+    /**
+     * The path to FFmpeg.
+     */
+    private ffmpegPath: string;
+
+    /**
+     * The path to FFprobe.
+     */
+    private ffprobePath: string;
+
+    /**
+     * The path of the video, or the images of the sequence.
+     */
+    private input: string | ImageSequence;
+
+    /**
+     * The framerate of an image sequence, which has none of its own.
+     */
+    private sequenceFps: number;
+
+    /**
+     * The codec of the piped frames.
+     */
+    private frameCodec: FrameCodec;
+
+    /**
+     * Called when FFmpeg fails while nothing is waiting on it.
+     */
+    private errorHandler: FrameErrorHandler;
+
+    /**
+     * The size of the frames, known once the input has been probed.
+     */
+    private frameSize: Size;
+
+    /**
+     * Frames that have been extracted but not read yet.
+     */
+    private frameQueue: Buffer[] = [];
+
+    /**
+     * The number of frames read so far.
+     */
+    private framesRead = 0;
+
+    /**
+     * Whether FFmpeg has stopped extracting frames.
+     */
+    private extractionFinished = false;
+
+    /**
+     * Whether the source was closed before FFmpeg finished.
+     */
+    private closed = false;
+
+    /**
+     * Resolves the wait for the next frame.
+     */
+    private frameWaiter: () => void = null;
+
+    /**
+     * Canvas raw frames are copied into, since they have no header.
+     */
+    private frameCanvas: Canvas;
+
+    /**
+     * The FFmpeg process extracting the frames.
+     */
+    private proc: child.ChildProcess;
+
+    /**
+     * @param ffmpegPath The path to FFmpeg.
+     * @param ffprobePath The path to FFprobe.
+     * @param input The path of the video, or the images of the sequence.
+     * @param sequenceFps The framerate of an image sequence, which has none of
+     * its own.
+     * @param frameCodec The codec of the piped frames.
+     * @param errorHandler Called when FFmpeg fails while nothing is waiting on
+     * it.
+     */
+    constructor(ffmpegPath: string, ffprobePath: string, input: string | ImageSequence, sequenceFps: number, frameCodec: FrameCodec, errorHandler: FrameErrorHandler) {
+        this.ffmpegPath = ffmpegPath;
+        this.ffprobePath = ffprobePath;
+        this.input = input;
+        this.sequenceFps = sequenceFps;
+        this.frameCodec = frameCodec;
+        this.errorHandler = errorHandler;
+    }
+
+    public get FramesRead(): number {
+        return this.framesRead;
+    }
+
+    public async Probe(): Promise<MediaInfo> {
+        const info = (this.input instanceof ImageSequence ?
+            await ProbeImageSequence(this.ffprobePath, this.input, this.sequenceFps) :
+            await ProbeMedia(this.ffprobePath, this.input));
+        this.frameSize = new Size(info.width, info.height);
+        return info;
+    }
+
+    public Start(startTime: number, fps: number, frameCount: number) {
+        if (this.frameCodec === 'rawvideo') {
+            this.frameCanvas = createCanvas(this.frameSize.Width, this.frameSize.Height);
+        }
+
+        this.proc = child.spawn(
+            this.ffmpegPath,
+            [
+                ...this.GetInputArgs(startTime, fps),
+                ...GetFrameFormatArgs(this.frameCodec, this.frameSize, false),
+                '-r', fps.toString(),                           // Force output framerate.
+                '-frames:v', frameCount.toString(),             // Number of frames to extract.
+                '-loglevel', 'error',                           // Log level.
+                '-'
+            ],
+            { stdio: ['ignore', 'pipe', 'pipe'] }
+        );
+
+        let stderr = '';
+        const parser = this.CreateFrameParser();
+        this.proc.stderr.setEncoding('utf8');
+        this.proc.stderr.on('data', (data: string) => stderr += data);
+        this.proc.stdout.on('data', (chunk: Buffer) => this.OnFramesOutput(parser, chunk));
+        this.proc.on('error', this.errorHandler);
+        this.proc.on('close', (code: number) => this.OnFramesOutputFinished(code, stderr));
+    }
+
+    public async Next(): Promise<Frame> {
+        while (this.frameQueue.length === 0) {
+            if (this.extractionFinished) {
+                return null;
+            }
+
+            await new Promise<void>((resolve) => this.frameWaiter = resolve);
+        }
+
+        if (this.frameQueue.length <= MAX_QUEUED_FRAMES / 2) {
+            this.proc.stdout.resume();
+        }
+
+        this.framesRead++;
+        return this.DecodeFrame(this.frameQueue.shift());
+    }
+
+    public async Close() {
+        this.closed = true;
+        await StopProcess(this.proc);
+        this.extractionFinished = true;
+        this.NotifyFrameWaiter();
+    }
+
+    /**
+     * Gets the FFmpeg arguments that read the input from the first frame.
+     * @param startTime Time in seconds into the input of the first frame.
+     * @param fps The framerate to read at.
+     */
+    private GetInputArgs(startTime: number, fps: number): string[] {
+        if (!(this.input instanceof ImageSequence)) {
+            return [
+                '-ss', startTime.toString(),                    // Seek to the first frame.
+                '-i', this.input                                // Input.
+            ];
+        }
+
+        const firstIndex = Math.round(startTime * fps);
+        return [
+            '-framerate', fps.toString(),                       // Framerate of the images.
+            '-start_number', this.input.FrameNumbers[firstIndex].toString(), // Skip to the first frame.
+            '-i', this.input.Pattern                            // Input.
+        ];
+    }
+
+    /**
+     * Creates the parser that splits the output of FFmpeg into frames.
+     */
+    private CreateFrameParser(): FrameParser {
+        switch (this.frameCodec) {
+            case 'rawvideo': {
+                return new RawFrameParser(this.frameSize.Width * this.frameSize.Height * 4);
+            }
+            case 'mjpeg': {
+                return new JpegFrameParser();
+            }
+            default: {
+                return new PngFrameParser();
+            }
+        }
+    }
+
+    /**
+     * Turns an extracted frame into something that can be drawn.
+     * @param frame The frame data.
+     */
+    private async DecodeFrame(frame: Buffer): Promise<Frame> {
+        if (this.frameCodec !== 'rawvideo') {
+            return loadImage(frame);
+        }
+
+        const context = this.frameCanvas.getContext('2d');
+        const imageData = context.createImageData(this.frameSize.Width, this.frameSize.Height);
+        imageData.data.set(frame);
+        context.putImageData(imageData, 0, 0);
+        return this.frameCanvas;
+    }
+
+    /**
+     * Wakes up whatever is waiting for the next frame.
+     */
+    private NotifyFrameWaiter() {
+        if (this.frameWaiter) {
+            const waiter = this.frameWaiter;
+            this.frameWaiter = null;
+            waiter();
+        }
+    }
+
+    /**
+     * Callback for when FFmpeg outputs a chunk of frame data.
+     * @param parser The parser splitting the output into frames.
+     * @param chunk The output chunk.
+     */
+    private OnFramesOutput(parser: FrameParser, chunk: Buffer) {
+        let frames: Buffer[];
+        try {
+            frames = parser.Push(chunk);
+        }
+        catch (error) {
+            this.proc.kill();
+            this.errorHandler(error);
+            return;
+        }
+
+        if (frames.length === 0) {
+            return;
+        }
+
+        this.frameQueue.push(...frames);
+        if (this.frameQueue.length >= MAX_QUEUED_FRAMES) {
+            // Hold off on extracting until the effect catches up.
+            this.proc.stdout.pause();
+        }
+
+        this.NotifyFrameWaiter();
+    }
+
+    /**
+     * Callback for when FFmpeg finishes outputting the frames.
+     * @param code The exit code of FFmpeg.
+     * @param stderr Error output.
+     */
+    private OnFramesOutputFinished(code: number, stderr: string) {
+        this.extractionFinished = true;
+        this.NotifyFrameWaiter();
+
+        if (code !== 0 && !this.closed) {
+            this.errorHandler(new Error(`FFmpeg failed to extract frames: ${stderr.trim()}`));
+        }
+    }
+}
+
+/**
+ * Writes frames by piping them into FFmpeg to be encoded.
+ */
+export class FfmpegFrameSink implements FrameSink {
+    /**
+     * The path to FFmpeg.
+     */
+    private ffmpegPath: string;
+
+    /**
+     * FFmpeg arguments that come between the piped frames and the output, such
+     * as the audio and the encoder.
+     */
+    private args: string[];
+
+    /**
+     * The path of the output, or "-" for stdout.
+     */
+    private output: string;
+
+    /**
+     * The codec of the piped frames.
+     */
+    private frameCodec: FrameCodec;
+
+    /**
+     * Called when FFmpeg fails while nothing is waiting on it.
+     */
+    private errorHandler: FrameErrorHandler;
+
+    /**
+     * The number of frames written so far.
+     */
+    private framesWritten = 0;
+
+    /**
+     * Whether the sink was aborted.
+     */
+    private aborted = false;
+
+    /**
+     * The error FFmpeg failed with, or null if it hasn't.
+     */
+    private failure: Error = null;
+
+    /**
+     * The FFmpeg process encoding the output.
+     */
+    private proc: child.ChildProcess;
+
+    /**
+     * Resolves once FFmpeg has exited.
+     */
+    private closed: Promise<void>;
+
+    /**
+     * @param ffmpegPath The path to FFmpeg.
+     * @param args FFmpeg arguments that come between the piped frames and the
+     * output, such as the audio and the encoder.
+     * @param output The path of the output, or "-" for stdout.
+     * @param frameCodec The codec of the piped frames.
+     * @param errorHandler Called when FFmpeg fails while nothing is waiting on
+     * it.
+     */
+    constructor(ffmpegPath: string, args: string[], output: string, frameCodec: FrameCodec, errorHandler: FrameErrorHandler) {
+        this.ffmpegPath = ffmpegPath;
+        this.args = args;
+        this.output = output;
+        this.frameCodec = frameCodec;
+        this.errorHandler = errorHandler;
+    }
+
+    public Open(frameSize: Size, fps: number) {
+        const piped = IsStdio(this.output);
+        if (!piped) {
+            // FFmpeg doesn't make the folder of the output.
+            fs.mkdirSync(path.dirname(this.output), { recursive: true });
+        }
+
+        this.proc = child.spawn(
+            this.ffmpegPath,
+            [
+                '-y',                                   // Overwrite existing output.
+                ...GetFrameFormatArgs(this.frameCodec, frameSize, true),
+                '-r', fps.toString(),                   // Force input framerate.
+                '-i', '-',                              // Input.
+                ...this.args,
+                '-loglevel', 'error',                   // Log level.
+                this.output,                            // Output.
+            ],
+            // Piped output goes straight to our stdout.
+            { stdio: ['pipe', (piped ? 'inherit' : 'ignore'), 'pipe'] }
+        );
+
+        let stderr = '';
+        this.proc.stderr.setEncoding('utf8');
+        this.proc.stderr.on('data', (data: string) => stderr += data);
+        this.proc.stdin.on('error', (error: NodeJS.ErrnoException) => {
+            // FFmpeg stopped reading because it failed, which is reported
+            // with its errors once it exits.
+            if (error.code !== 'EPIPE' && error.code !== 'ERR_STREAM_DESTROYED') {
+                this.errorHandler(error);
+            }
+        });
+        this.proc.on('error', this.errorHandler);
+        this.closed = new Promise<void>((resolve) => {
+            this.proc.on('close', (code: number) => {
+                if (code !== 0 && !this.aborted) {
+                    this.failure = new Error(`FFmpeg failed to encode the output: ${stderr.trim()}`);
+                    this.errorHandler(this.failure);
+                }
+
+                resolve();
+            });
+        });
+    }
+
+    public get Encoding(): FrameEncoding {
+        switch (this.frameCodec) {
+            case 'rawvideo': {
+                return { type: 'raw' };
+            }
+            case 'mjpeg': {
+                return { type: 'jpeg', quality: 1 };
+            }
+            default: {
+                return { type: 'png' };
+            }
+        }
+    }
+
+    public async Write(canvas: Canvas) {
+        await this.WriteEncoded(EncodeFrame(canvas, this.Encoding));
+    }
+
+    public async WriteEncoded(data: Buffer) {
+        this.framesWritten++;
+        if (!this.proc.stdin.write(data)) {
+            // Let FFmpeg catch up before the next frame, unless it exits.
+            const drained = new Promise<void>((resolve) => this.proc.stdin.once('drain', resolve));
+            await Promise.race([drained, this.closed]);
+        }
+
+        if (this.failure) {
+            throw this.failure;
+        }
+    }
+
+    public async Finish() {
+        this.proc.stdin.end();
+        await this.closed;
+        if (this.failure) {
+            throw this.failure;
+        }
+    }
+
+    public async Abort() {
+        this.aborted = true;
+        await StopProcess(this.proc);
+        if (!this.proc || IsStdio(this.output)) {
+            return;
+        }
+
+        // FFmpeg writes at most the frames it was given.
+        const files = [this.output];
+        if (IsSequencePattern(this.output)) {
+            files.length = 0;
+            for (let frameNum = 1; frameNum <= this.framesWritten; ++frameNum) {
+                files.push(FormatSequencePath(this.output, frameNum));
+            }
+        }
+
+        for (let file of files) {
+            try {
+                fs.unlinkSync(file);
+            }
+            catch (e) {
+                // It was never written.
+            }
+        }
+    }
+}
@@ -0,0 +1,388 @@
+/**
+ * @file Module for filtering image data.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Color } from './color';
+import { Size } from './geom';
+import { Dimension, ResolveDimension } from './linestyle';
+
+/**
+ * What the colour of the frozen region is taken out towards.
+ */
+export type DesaturateMode = ('grey' | 'sepia');
+
+/**
+ * Blurs one line of one channel with a box of the given radius. Pixels past
+ * the ends repeat the pixel at the end.
+ * @param source Data to read from.
+ * @param dest Data to write to.
+ * @param start Index of the first value of the line.
+ * @param stride Distance between values of the line.
+ * @param count Number of values in the line.
+ * @param radius Radius of the box.
+ */
+function BoxBlurLine(source: Uint8ClampedArray, dest: Uint8ClampedArray, start: number, stride: number, count: number, radius: number) {
+    const last = start + (count - 1) * stride;
+    const size = radius * 2 + 1;
+    let sum = source[start] * (radius + 1);
+    for (let i = 1; i <= radius; ++i) {
+        sum += source[Math.min(start + i * stride, last)];
+    }
+
+    for (let i = 0; i < count; ++i) {
+        dest[start + i * stride] = sum / size;
+        sum += source[Math.min(start + (i + radius + 1) * stride, last)];
+        sum -= source[Math.max(start + (i - radius) * stride, start)];
+    }
+}
+
+/**
+ * Blurs RGBA image data in place with a box blur. Edges are extended rather
+ * than faded out.
+ * @param data The image data.
+ * @param width Width of the image.
+ * @param height Height of the image.
+ * @param radius Radius of the box in pixels.
+ * @param channels The channels to blur, where 0-3 are red, green, blue and
+ * alpha.
+ */
+export function BoxBlur(data: Uint8ClampedArray, width: number, height: number, radius: number, channels: number[] = [0, 1, 2, 3]) {
+    radius = Math.round(radius);
+    if (radius < 1) {
+        return;
+    }
+
+    const temp = new Uint8ClampedArray(data.length);
+    for (let channel of channels) {
+        for (let y = 0; y < height; ++y) {
+            BoxBlurLine(data, temp, (y * width) * 4 + channel, 4, width, radius);
+        }
+
+        for (let x = 0; x < width; ++x) {
+            BoxBlurLine(temp, data, x * 4 + channel, width * 4, height, radius);
+        }
+    }
+}
+
+/**
+ * Gets the radii of box blurs that together approximate a Gaussian blur.
+ * @param sigma The standard deviation of the Gaussian.
+ * @param passes The number of box blurs.
+ */
+function GetGaussianBoxRadii(sigma: number, passes: number): number[] {
+    const idealSize = Math.sqrt(12 * sigma * sigma / passes + 1);
+    let lower = Math.floor(idealSize);
+    if (lower % 2 === 0) {
+        --lower;
+    }
+
+    const upper = lower + 2;
+    const idealLowerPasses = (12 * sigma * sigma - passes * lower * lower - 4 * passes * lower - 3 * passes) / (-4 * lower - 4);
+    const lowerPasses = Math.round(idealLowerPasses);
+
+    const radii: number[] = [];
+    for (let i = 0; i < passes; ++i) {
+        radii.push(((i < lowerPasses ? lower : upper) - 1) / 2);
+    }
+
+    return radii;
+}
+
+/**
+ * Changes RGBA image data in place.
+ */
+export interface ImageFilter {
+    /**
+     * Applies the filter.
+     * @param data The image data.
+     * @param width Width of the image.
+     * @param height Height of the image.
+     */
+    Apply(data: Uint8ClampedArray, width: number, height: number): void;
+}
+
+/**
+ * Mixes every pixel with a colour.
+ */
+export class TintFilter implements ImageFilter {
+    /**
+     * The colour. Its alpha is how much of it to mix in.
+     */
+    private color: Color;
+
+    /**
+     * @param color The colour. Its alpha is how much of it to mix in.
+     */
+    constructor(color: Color) {
+        this.color = color;
+    }
+
+    public Apply(data: Uint8ClampedArray, width: number, height: number) {
+        const color = this.color;
+        const amount = color.Alpha;
+        for (let i = 0; i < width * height * 4; i += 4) {
+            data[i] += (color.Red - data[i]) * amount;
+            data[i + 1] += (color.Green - data[i + 1]) * amount;
+            data[i + 2] += (color.Blue - data[i + 2]) * amount;
+        }
+    }
+}
+
+/**
+ * Takes the colour out of an image, leaving grey or sepia.
+ */
+export class DesaturateFilter implements ImageFilter {
+    /**
+     * Whether the result is sepia instead of grey.
+     */
+    private sepia: boolean;
+
+    /**
+     * How much to desaturate in the range of 0-1.
+     */
+    private amount: number;
+
+    /**
+     * @param sepia Whether the result is sepia instead of grey.
+     * @param amount How much to desaturate in the range of 0-1.
+     */
+    constructor(sepia: boolean, amount: number) {
+        this.sepia = sepia;
+        this.amount = amount;
+    }
+
+    public Apply(data: Uint8ClampedArray, width: number, height: number) {
+        const amount = this.amount;
+        for (let i = 0; i < width * height * 4; i += 4) {
+            const r = data[i], g = data[i + 1], b = data[i + 2];
+            let target: number[];
+            if (this.sepia) {
+                target = [
+                    r * 0.393 + g * 0.769 + b * 0.189,
+                    r * 0.349 + g * 0.686 + b * 0.168,
+                    r * 0.272 + g * 0.534 + b * 0.131
+                ];
+            }
+            else {
+                const luma = r * 0.2126 + g * 0.7152 + b * 0.0722;
+                target = [luma, luma, luma];
+            }
+
+            data[i] = r + (target[0] - r) * amount;
+            data[i + 1] = g + (target[1] - g) * amount;
+            data[i + 2] = b + (target[2] - b) * amount;
+        }
+    }
+}
+
+/**
+ * Scales the brightness and contrast of an image.
+ */
+export class BrightnessContrastFilter implements ImageFilter {
+    /**
+     * What to multiply the brightness by. 1 leaves it unchanged.
+     */
+    private brightness: number;
+
+    /**
+     * What to multiply the contrast by. 1 leaves it unchanged.
+     */
+    private contrast: number;
+
+    /**
+     * @param brightness What to multiply the brightness by. 1 leaves it
+     * unchanged.
+     * @param contrast What to multiply the contrast by. 1 leaves it unchanged.
+     */
+    constructor(brightness: number, contrast: number) {
+        this.brightness = brightness;
+        this.contrast = contrast;
+    }
+
+    public Apply(data: Uint8ClampedArray, width: number, height: number) {
+        // Every value maps the same way, so work it out once.
+        const table = new Uint8ClampedArray(256);
+        for (let value = 0; value < 256; ++value) {
+            table[value] = (value * this.brightness - 128) * this.contrast + 128;
+        }
+
+        for (let i = 0; i < width * height * 4; i += 4) {
+            data[i] = table[data[i]];
+            data[i + 1] = table[data[i + 1]];
+            data[i + 2] = table[data[i + 2]];
+        }
+    }
+}
+
+/**
+ * Blurs an image with an approximate Gaussian made of three box blurs.
+ */
+export class GaussianBlurFilter implements ImageFilter {
+    /**
+     * The standard deviation of the blur in pixels.
+     */
+    private sigma: number;
+
+    /**
+     * @param sigma The standard deviation of the blur in pixels.
+     */
+    constructor(sigma: number) {
+        this.sigma = sigma;
+    }
+
+    public Apply(data: Uint8ClampedArray, width: number, height: number) {
+        for (let radius of GetGaussianBoxRadii(this.sigma, 3)) {
+            BoxBlur(data, width, height, radius, [0, 1, 2]);
+        }
+    }
+}
+
+/**
+ * Darkens an image towards its corners.
+ */
+export class VignetteFilter implements ImageFilter {
+    /**
+     * How dark the corners get in the range of 0-1.
+     */
+    private amount: number;
+
+    /**
+     * @param amount How dark the corners get in the range of 0-1.
+     */
+    constructor(amount: number) {
+        this.amount = amount;
+    }
+
+    public Apply(data: Uint8ClampedArray, width: number, height: number) {
+        const centreX = width / 2;
+        const centreY = height / 2;
+        for (let y = 0; y < height; ++y) {
+            const dy = (y + 0.5 - centreY) / centreY;
+            for (let x = 0; x < width; ++x) {
+                // 0 at the centre and 1 at the corners.
+                const dx = (x + 0.5 - centreX) / centreX;
+                const distance = (dx * dx + dy * dy) / 2;
+                const scale = 1 - this.amount * distance;
+                const i = (y * width + x) * 4;
+                data[i] *= scale;
+                data[i + 1] *= scale;
+                data[i + 2] *= scale;
+            }
+        }
+    }
+}
+
+/**
+ * How the frozen region is treated.
+ */
+export interface TreatmentSettings {
+    /**
+     * Colour to tint with. Its alpha is how strong the tint is.
+     */
+    tint: Color;
+
+    /**
+     * Takes the colour out, leaving grey or sepia.
+     */
+    desaturate: DesaturateMode;
+
+    /**
+     * How much to desaturate in the range of 0-1.
+     */
+    desaturateAmount: number;
+
+    /**
+     * What to multiply the brightness by. 1 leaves it unchanged.
+     */
+    brightness: number;
+
+    /**
+     * What to multiply the contrast by. 1 leaves it unchanged.
+     */
+    contrast: number;
+
+    /**
+     * Radius of a Gaussian blur. 0 turns it off.
+     */
+    blur: Dimension;
+
+    /**
+     * How dark the corners get in the range of 0-1.
+     */
+    vignette: number;
+}
+
+/**
+ * Creates the filters of a treatment, leaving out the ones that do nothing.
+ * @param settings The treatment.
+ * @param frameSize The size of the frames, which relative sizes are of.
+ */
+export function CreateTreatmentFilters(settings: TreatmentSettings, frameSize: Size): ImageFilter[] {
+    const filters: ImageFilter[] = [];
+    if (settings.desaturate && settings.desaturateAmount > 0) {
+        filters.push(new DesaturateFilter(settings.desaturate === 'sepia', settings.desaturateAmount));
+    }
+
+    if (settings.tint && settings.tint.Alpha > 0) {
+        filters.push(new TintFilter(settings.tint));
+    }
+
+    if (settings.brightness !== 1 || settings.contrast !== 1) {
+        filters.push(new BrightnessContrastFilter(settings.brightness, settings.contrast));
+    }
+
+    const blur = (settings.blur ? ResolveDimension(settings.blur, frameSize) : 0);
+    if (blur > 0) {
+        // A Gaussian fades to almost nothing three standard deviations out,
+        // so that's taken as its radius.
+        filters.push(new GaussianBlurFilter(blur / 3));
+    }
+
+    if (settings.vignette > 0) {
+        filters.push(new VignetteFilter(settings.vignette));
+    }
+
+    return filters;
+}
+
+/**
+ * Applies filters one after another.
+ * @param filters The filters.
+ * @param data The image data.
+ * @param width Width of the image.
+ * @param height Height of the image.
+ * @param strength How much of the filtered result to use in the range of 0-1,
+ * where 0 leaves the image unchanged.
+ */
+export function ApplyFilters(filters: ImageFilter[], data: Uint8ClampedArray, width: number, height: number, strength: number = 1) {
+    if (filters.length === 0 || strength <= 0) {
+        return;
+    }
+
+    const original = (strength < 1 ? Uint8ClampedArray.from(data) : null);
+    for (let filter of filters) {
+        filter.Apply(data, width, height);
+    }
+
+    if (original) {
+        for (let i = 0; i < width * height * 4; ++i) {
+            data[i] = original[i] + (data[i] - original[i]) * strength;
+        }
+    }
+}
@@ -0,0 +1,259 @@
+/**
+ * @file Module for splitting a stream of piped images into frames.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * The starting capacity of the buffer holding an incomplete frame.
+ */
+const INITIAL_CAPACITY = 1024 * 1024;
+
+/**
+ * Signature at the start of every PNG file.
+ */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Collects chunks of a stream and splits them into whole frames.
+ */
+export abstract class FrameParser {
+    /**
+     * Holds the bytes of the frame that hasn't been completed yet.
+     */
+    private buffer: Buffer = Buffer.alloc(INITIAL_CAPACITY);
+
+    /**
+     * Number of bytes used in the buffer.
+     */
+    private length = 0;
+
+    /**
+     * Number of bytes of an incomplete frame that are waiting for more data.
+     */
+    public get PendingBytes(): number {
+        return this.length;
+    }
+
+    /**
+     * Adds a chunk of the stream.
+     * @param chunk The chunk to add.
+     * @returns The frames completed by the chunk.
+     */
+    public Push(chunk: Buffer): Buffer[] {
+        if (this.length + chunk.length > this.buffer.length) {
+            const grown = Buffer.alloc(Math.max(this.buffer.length * 2, this.length + chunk.length));
+            this.buffer.copy(grown, 0, 0, this.length);
+            this.buffer = grown;
+        }
+
+        chunk.copy(this.buffer, this.length);
+        this.length += chunk.length;
+
+        const frames: Buffer[] = [];
+        let frameEnd = this.FindFrameEnd(this.buffer, this.length);
+        while (frameEnd !== -1) {
+            frames.push(Buffer.from(this.buffer.slice(0, frameEnd)));
+            this.buffer.copy(this.buffer, 0, frameEnd, this.length);
+            this.length -= frameEnd;
+            this.Reset();
+            frameEnd = this.FindFrameEnd(this.buffer, this.length);
+        }
+
+        return frames;
+    }
+
+    /**
+     * Searches for the end of the frame at the start of the data. Subclasses
+     * may keep state between calls so scanning can resume where it stopped.
+     * @param data The buffered data.
+     * @param length The number of bytes in the data that are used.
+     * @returns The index after the last byte of the frame, or -1 if the frame
+     * isn't complete yet.
+     */
+    protected abstract FindFrameEnd(data: Buffer, length: number): number;
+
+    /**
+     * Resets the scanning state for the next frame.
+     */
+    protected abstract Reset(): void;
+}
+
+/**
+ * Splits a stream of JPEG images by walking their markers, so bytes that look
+ * like the start of an image inside compressed data don't break it up.
+ */
+export class JpegFrameParser extends FrameParser {
+    /**
+     * The index to resume scanning from.
+     */
+    private offset = 0;
+
+    /**
+     * Whether the scan is inside entropy coded data following a start of scan
+     * marker.
+     */
+    private inScan = false;
+
+    protected FindFrameEnd(data: Buffer, length: number): number {
+        if (this.offset === 0) {
+            if (length < 2) {
+                return -1;
+            }
+
+            if (data[0] !== 0xff || data[1] !== 0xd8) {
+                throw new Error('Invalid JPEG frame in stream.');
+            }
+
+            this.offset = 2;
+        }
+
+        while (this.offset < length) {
+            if (this.inScan) {
+                // Markers inside scan data are either stuffed bytes or restarts.
+                const markerIndex = data.indexOf(0xff, this.offset);
+                if (markerIndex === -1 || markerIndex + 1 >= length) {
+                    this.offset = (markerIndex === -1 ? length : markerIndex);
+                    return -1;
+                }
+
+                const marker = data[markerIndex + 1];
+                if (marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0xff) {
+                    this.offset = markerIndex + (marker === 0xff ? 1 : 2);
+                    continue;
+                }
+
+                this.inScan = false;
+                this.offset = markerIndex;
+            }
+
+            if (this.offset + 1 >= length) {
+                return -1;
+            }
+
+            if (data[this.offset] !== 0xff) {
+                throw new Error('Invalid JPEG marker in stream.');
+            }
+
+            const marker = data[this.offset + 1];
+            if (marker === 0xff) {
+                // Fill byte.
+                this.offset += 1;
+                continue;
+            }
+
+            if (marker === 0xd9) {
+                // End of image.
+                return this.offset + 2;
+            }
+
+            if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+                // Markers without a segment.
+                this.offset += 2;
+                continue;
+            }
+
+            if (this.offset + 3 >= length) {
+                return -1;
+            }
+
+            const segmentEnd = this.offset + 2 + data.readUInt16BE(this.offset + 2);
+            if (segmentEnd > length) {
+                return -1;
+            }
+
+            this.offset = segmentEnd;
+            this.inScan = (marker === 0xda);
+        }
+
+        return -1;
+    }
+
+    protected Reset() {
+        this.offset = 0;
+        this.inScan = false;
+    }
+}
+
+/**
+ * Splits a stream of PNG images by walking their chunks up to the IEND chunk.
+ */
+export class PngFrameParser extends FrameParser {
+    /**
+     * The index to resume scanning from.
+     */
+    private offset = 0;
+
+    protected FindFrameEnd(data: Buffer, length: number): number {
+        if (this.offset === 0) {
+            if (length < PNG_SIGNATURE.length) {
+                return -1;
+            }
+
+            if (data.compare(PNG_SIGNATURE, 0, PNG_SIGNATURE.length, 0, PNG_SIGNATURE.length) !== 0) {
+                throw new Error('Invalid PNG frame in stream.');
+            }
+
+            this.offset = PNG_SIGNATURE.length;
+        }
+
+        // Each chunk is its length, type, data and CRC.
+        while (this.offset + 8 <= length) {
+            const chunkEnd = this.offset + 12 + data.readUInt32BE(this.offset);
+            if (chunkEnd > length) {
+                return -1;
+            }
+
+            const isEnd = (data.toString('ascii', this.offset + 4, this.offset + 8) === 'IEND');
+            this.offset = chunkEnd;
+            if (isEnd) {
+                return chunkEnd;
+            }
+        }
+
+        return -1;
+    }
+
+    protected Reset() {
+        this.offset = 0;
+    }
+}
+
+/**
+ * Splits a stream of raw frames that all have the same number of bytes.
+ */
+export class RawFrameParser extends FrameParser {
+    /**
+     * The number of bytes in every frame.
+     */
+    private frameSize: number;
+
+    /**
+     * @param frameSize The number of bytes in every frame.
+     */
+    constructor(frameSize: number) {
+        super();
+        this.frameSize = frameSize;
+    }
+
+    protected FindFrameEnd(data: Buffer, length: number): number {
+        return (length >= this.frameSize ? this.frameSize : -1);
+    }
+
+    protected Reset() {
+    }
+}
@@ -0,0 +1,156 @@
+/**
+ * @file Module for where frames come from and go to.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { Canvas, Image } from '@napi-rs/canvas';
+import { Size } from './geom';
+import { MediaInfo } from './probe';
+
+/**
+ * A codec for exporting frames. 'rawvideo' pipes uncompressed RGBA frames.
+ */
+export type FrameCodec = ('rawvideo' | 'mjpeg' | 'png');
+
+/**
+ * Names of all the frame codecs.
+ */
+export const FRAME_CODECS: FrameCodec[] = ['rawvideo', 'mjpeg', 'png'];
+
+/**
+ * Something a frame can be drawn from.
+ */
+export type Frame = (Image | Canvas);
+
+/**
+ * How a frame is encoded to bytes. 'raw' is uncompressed RGBA.
+ */
+export interface FrameEncoding {
+    /**
+     * The format of the bytes.
+     */
+    type: ('raw' | 'png' | 'jpeg');
+
+    /**
+     * The quality of JPEG frames in the range of 0-1.
+     */
+    quality?: number;
+}
+
+/**
+ * Encodes a frame.
+ * @param canvas The frame.
+ * @param encoding How to encode it.
+ */
+export function EncodeFrame(canvas: Canvas, encoding: FrameEncoding): Buffer {
+    switch (encoding.type) {
+        case 'raw': {
+            const context = canvas.getContext('2d');
+            const data = context.getImageData(0, 0, canvas.width, canvas.height).data;
+            return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+        }
+        case 'jpeg': {
+            return canvas.toBuffer('image/jpeg', Math.round(encoding.quality * 100));
+        }
+        default: {
+            return canvas.toBuffer('image/png');
+        }
+    }
+}
+
+/**
+ * Handles errors that happen outside of any call, such as a process exiting.
+ */
+export type FrameErrorHandler = (error: Error) => void;
+
+/**
+ * Where the frames of the input come from.
+ */
+export interface FrameSource {
+    /**
+     * The number of frames read so far.
+     */
+    readonly FramesRead: number;
+
+    /**
+     * Finds the size, framerate and length of the input.
+     */
+    Probe(): Promise<MediaInfo>;
+
+    /**
+     * Starts reading frames.
+     * @param startTime Time in seconds into the input of the first frame.
+     * @param fps The framerate to read at.
+     * @param frameCount The most frames to read.
+     */
+    Start(startTime: number, fps: number, frameCount: number): void;
+
+    /**
+     * Waits for the next frame. It's only valid until the next call.
+     * @returns The frame, or null if no frames are left.
+     */
+    Next(): Promise<Frame>;
+
+    /**
+     * Stops reading frames.
+     */
+    Close(): Promise<void>;
+}
+
+/**
+ * Where the frames of the output go.
+ */
+export interface FrameSink {
+    /**
+     * Gets ready to take frames.
+     * @param frameSize The size of the frames.
+     * @param fps The framerate of the output.
+     */
+    Open(frameSize: Size, fps: number): void;
+
+    /**
+     * Writes a frame, waiting if the sink needs to catch up.
+     * @param canvas The frame. It's reused for the next frame, so it's copied
+     * if it's kept.
+     */
+    Write(canvas: Canvas): Promise<void>;
+
+    /**
+     * How the sink encodes frames. Sinks that have it also take frames that
+     * were already encoded, such as on other threads.
+     */
+    readonly Encoding?: FrameEncoding;
+
+    /**
+     * Writes a frame that was already encoded, waiting if the sink needs to
+     * catch up.
+     * @param data The frame, encoded the way the sink does.
+     */
+    WriteEncoded?(data: Buffer): Promise<void>;
+
+    /**
+     * Waits for the output to be finished once every frame has been written.
+     */
+    Finish(): Promise<void>;
+
+    /**
+     * Stops early and removes whatever was written of the output.
+     */
+    Abort(): Promise<void>;
+}
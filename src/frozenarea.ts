@@ -0,0 +1,341 @@
+/**
+ * @file Module for the frozen area of a frame.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { createCanvas, Canvas, SKRSContext2D, Image } from '@napi-rs/canvas';
+import { ApplyFilters, BoxBlur, ImageFilter } from './filters';
+import { Point, Polygon, Rectangle, Size } from './geom';
+import { AddPolygonToPath } from './paths';
+
+/**
+ * Where one region's sweep is in a frame.
+ */
+export interface RegionGeometry {
+    /**
+     * The box being swept.
+     */
+    bounds: Rectangle;
+
+    /**
+     * The angle of the sweep in degrees. What it means depends on the shape.
+     */
+    angle: number;
+
+    /**
+     * The lines of the region, each as a list of points to connect.
+     */
+    lines: Point[][];
+}
+
+/**
+ * The frozen area of a frame and the lines to draw on it.
+ */
+export interface FrameGeometry {
+    /**
+     * Seconds since the start of the sweep.
+     */
+    time: number;
+
+    /**
+     * Polygons that make up the frozen area when filled with the even-odd
+     * rule.
+     */
+    frozen: Polygon[];
+
+    /**
+     * The lines to draw, each as a list of points to connect.
+     */
+    lines: Point[][];
+
+    /**
+     * How far the sweep furthest along has gone in the range of 0-1.
+     */
+    progress: number;
+
+    /**
+     * The bounds of the frozen area, or null if nothing is frozen.
+     */
+    frozenBounds: Rectangle;
+
+    /**
+     * Where the sweep of each region is.
+     */
+    regions: RegionGeometry[];
+}
+
+/**
+ * What a frame of the output shows.
+ */
+export interface FrameState {
+    /**
+     * The geometry of the frame, or null before the sweep starts.
+     */
+    geometry: FrameGeometry;
+
+    /**
+     * Whether the line is drawn.
+     */
+    drawLines: boolean;
+
+    /**
+     * How much of the frozen result shows in the range of 0-1.
+     */
+    frozenAlpha: number;
+}
+
+/**
+ * Draws images inside or outside of the frozen area of a frame, fading them
+ * across its edge when feathering.
+ */
+export class FrozenArea {
+    /**
+     * The area of the frames.
+     */
+    private frameRect: Rectangle;
+
+    /**
+     * Width in pixels of the soft edge. 0 keeps the edge sharp.
+     */
+    private feather: number;
+
+    /**
+     * The canvas holding how frozen each pixel is when feathering.
+     */
+    private maskCanvas: Canvas = null;
+
+    /**
+     * The canvas the image is cut out on when feathering.
+     */
+    private featherCanvas: Canvas = null;
+
+    /**
+     * The time of the geometry the mask was last filled with, or null if it
+     * hasn't been.
+     */
+    private maskTime: number = null;
+
+    /**
+     * @param frameSize The size of the frames.
+     * @param feather Width in pixels of the soft edge. 0 keeps the edge sharp.
+     */
+    constructor(frameSize: Size, feather: number) {
+        this.frameRect = new Rectangle(0, 0, frameSize.Width, frameSize.Height);
+        this.feather = feather;
+        if (feather > 0) {
+            this.maskCanvas = createCanvas(frameSize.Width, frameSize.Height);
+            this.featherCanvas = createCanvas(frameSize.Width, frameSize.Height);
+        }
+    }
+
+    /**
+     * Fills the mask with the frozen area of a frame, blurred for a soft edge.
+     * It has to be called before drawing a frame when feathering, and does
+     * nothing if the geometry is the same as last time.
+     * @param geometry The geometry of the frame.
+     */
+    public Update(geometry: FrameGeometry) {
+        if (!this.maskCanvas || this.maskTime === geometry.time) {
+            return;
+        }
+
+        const width = this.maskCanvas.width;
+        const height = this.maskCanvas.height;
+
+        // Fill in the frozen region and blur it for the soft edge.
+        const maskContext = this.maskCanvas.getContext('2d');
+        maskContext.clearRect(0, 0, width, height);
+        maskContext.fillStyle = '#000';
+        maskContext.beginPath();
+        geometry.frozen.forEach((polygon) => AddPolygonToPath(maskContext, polygon));
+        maskContext.fill('evenodd');
+
+        const mask = maskContext.getImageData(0, 0, width, height);
+        BoxBlur(mask.data, width, height, this.feather / 2, [3]);
+        maskContext.putImageData(mask, 0, 0);
+        this.maskTime = geometry.time;
+    }
+
+    /**
+     * Clips to the frozen area of the frame, or everything else.
+     * @param context The context to clip.
+     * @param geometry The geometry of the frame.
+     * @param frozen Whether to clip to the frozen area instead of the live
+     * one.
+     */
+    public Clip(context: SKRSContext2D, geometry: FrameGeometry, frozen: boolean) {
+        context.beginPath();
+        if (!frozen) {
+            context.rect(this.frameRect.X, this.frameRect.Y, this.frameRect.Width, this.frameRect.Height);
+        }
+
+        geometry.frozen.forEach((polygon) => AddPolygonToPath(context, polygon));
+        context.clip('evenodd');
+    }
+
+    /**
+     * Draws the frozen area of an image.
+     * @param context The context to draw on.
+     * @param source The image.
+     * @param geometry The geometry of the frame.
+     */
+    public DrawFrozen(context: SKRSContext2D, source: Image | Canvas, geometry: FrameGeometry) {
+        this.DrawPart(context, source, geometry, true);
+    }
+
+    /**
+     * Draws everything of an image but the frozen area.
+     * @param context The context to draw on.
+     * @param source The image.
+     * @param geometry The geometry of the frame.
+     */
+    public DrawLive(context: SKRSContext2D, source: Image | Canvas, geometry: FrameGeometry) {
+        this.DrawPart(context, source, geometry, false);
+    }
+
+    /**
+     * Fills the frozen area with a colour.
+     * @param context The context to draw on.
+     * @param geometry The geometry of the frame.
+     * @param color The CSS colour to fill with.
+     */
+    public Fill(context: SKRSContext2D, geometry: FrameGeometry, color: string) {
+        if (this.maskCanvas) {
+            // Colour in the soft mask.
+            const featherContext = this.featherCanvas.getContext('2d');
+            featherContext.globalCompositeOperation = 'copy';
+            featherContext.drawImage(this.maskCanvas, 0, 0);
+            featherContext.globalCompositeOperation = 'source-in';
+            featherContext.fillStyle = color;
+            featherContext.fillRect(0, 0, this.frameRect.Width, this.frameRect.Height);
+            context.drawImage(this.featherCanvas, 0, 0);
+        }
+        else {
+            context.save();
+            this.Clip(context, geometry, true);
+            context.fillStyle = color;
+            context.fillRect(0, 0, this.frameRect.Width, this.frameRect.Height);
+            context.restore();
+        }
+    }
+
+    /**
+     * Draws the frozen or live part of an image.
+     * @param context The context to draw on.
+     * @param source The image.
+     * @param geometry The geometry of the frame.
+     * @param frozen Whether to draw the frozen part instead of the live one.
+     */
+    private DrawPart(context: SKRSContext2D, source: Image | Canvas, geometry: FrameGeometry, frozen: boolean) {
+        if (this.maskCanvas) {
+            // Keep or cut out the soft frozen area of the latest frame.
+            const featherContext = this.featherCanvas.getContext('2d');
+            featherContext.globalCompositeOperation = 'copy';
+            featherContext.drawImage(source, 0, 0);
+            featherContext.globalCompositeOperation = (frozen ? 'destination-in' : 'destination-out');
+            featherContext.drawImage(this.maskCanvas, 0, 0);
+            context.drawImage(this.featherCanvas, 0, 0);
+        }
+        else {
+            context.save();
+            this.Clip(context, geometry, frozen);
+            context.drawImage(source, 0, 0);
+            context.restore();
+        }
+    }
+}
+
+/**
+ * Treats the frozen area of a frame with filters.
+ */
+export class FrozenTreatment {
+    /**
+     * The filters, applied in order.
+     */
+    private filters: ImageFilter[];
+
+    /**
+     * Whether the treatment fades in as the sweep progresses instead of being
+     * at full strength from the start.
+     */
+    private fadeIn: boolean;
+
+    /**
+     * Draws the treated part of the frame.
+     */
+    private area: FrozenArea;
+
+    /**
+     * The canvas holding the treated part of the frozen region.
+     */
+    private treatmentCanvas: Canvas = null;
+
+    /**
+     * The canvas holding the frozen frame with its treatment.
+     */
+    private frozenCanvas: Canvas = null;
+
+    /**
+     * @param filters The filters, applied in order.
+     * @param fadeIn Whether the treatment fades in as the sweep progresses
+     * instead of being at full strength from the start.
+     * @param frameSize The size of the frames.
+     * @param area Draws the treated part of the frame.
+     */
+    constructor(filters: ImageFilter[], fadeIn: boolean, frameSize: Size, area: FrozenArea) {
+        this.filters = filters;
+        this.fadeIn = fadeIn;
+        this.area = area;
+        if (filters.length > 0) {
+            this.treatmentCanvas = createCanvas(frameSize.Width, frameSize.Height);
+            this.frozenCanvas = createCanvas(frameSize.Width, frameSize.Height);
+        }
+    }
+
+    /**
+     * Gets a frame with the treatment applied to its frozen area.
+     * @param source The frame.
+     * @param geometry The geometry of the frame.
+     * @returns The frame itself if there's nothing to treat, otherwise a
+     * canvas that's reused by the next call.
+     */
+    public Apply(source: Canvas, geometry: FrameGeometry): Canvas {
+        if (this.filters.length === 0) {
+            return source;
+        }
+
+        const width = source.width;
+        const height = source.height;
+        const frozenContext = this.frozenCanvas.getContext('2d');
+        frozenContext.globalCompositeOperation = 'copy';
+        frozenContext.drawImage(source, 0, 0);
+        frozenContext.globalCompositeOperation = 'source-over';
+
+        const strength = (this.fadeIn ? geometry.progress : 1);
+        if (strength <= 0) {
+            return this.frozenCanvas;
+        }
+
+        const treated = frozenContext.getImageData(0, 0, width, height);
+        ApplyFilters(this.filters, treated.data, width, height, strength);
+        this.treatmentCanvas.getContext('2d').putImageData(treated, 0, 0);
+        this.area.DrawFrozen(frozenContext, this.treatmentCanvas, geometry);
+        return this.frozenCanvas;
+    }
+}
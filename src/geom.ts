@@ -102,6 +102,13 @@ export class BoundingBox {
         this.BottomLeft = new Point(x, y + height);
         this.BottomRight = new Point(x + width, y + height);
     }
+
+    /**
+     * Returns the bounding box as a rectangle.
+     */
+    public ToRectangle(): Rectangle {
+        return new Rectangle(this.TopLeft.X, this.TopLeft.Y, this.BottomRight.X - this.TopLeft.X, this.BottomRight.Y - this.TopLeft.Y);
+    }
 }
 
 /**
@@ -191,4 +198,217 @@ export class Rectangle {
     public GetBounds(): BoundingBox {
         return new BoundingBox(this.Position.X, this.Position.Y, this.Size.Width, this.Size.Height);
     }
+
+    /**
+     * Returns the rectangle as a polygon, going clockwise from the top left.
+     */
+    public ToPolygon(): Polygon {
+        const bounds = this.GetBounds();
+        return new Polygon([bounds.TopLeft, bounds.TopRight, bounds.BottomRight, bounds.BottomLeft]);
+    }
+
+    /**
+     * Whether the rectangle has no area.
+     */
+    public get IsEmpty(): boolean {
+        return this.Size.Width <= 0 || this.Size.Height <= 0;
+    }
+
+    /**
+     * Returns the part of the rectangle that's inside another one. It's empty
+     * if they don't overlap.
+     * @param other The other rectangle.
+     */
+    public Intersect(other: Rectangle): Rectangle {
+        const left = Math.max(this.X, other.X);
+        const top = Math.max(this.Y, other.Y);
+        const right = Math.min(this.X + this.Width, other.X + other.Width);
+        const bottom = Math.min(this.Y + this.Height, other.Y + other.Height);
+        return new Rectangle(left, top, Math.max(0, right - left), Math.max(0, bottom - top));
+    }
+
+    /**
+     * Returns the smallest rectangle holding both rectangles. Empty ones are
+     * left out.
+     * @param other The other rectangle.
+     */
+    public Union(other: Rectangle): Rectangle {
+        if (other.IsEmpty || this.IsEmpty) {
+            const rect = (other.IsEmpty ? this : other);
+            return new Rectangle(rect.X, rect.Y, rect.Width, rect.Height);
+        }
+
+        const left = Math.min(this.X, other.X);
+        const top = Math.min(this.Y, other.Y);
+        const right = Math.max(this.X + this.Width, other.X + other.Width);
+        const bottom = Math.max(this.Y + this.Height, other.Y + other.Height);
+        return new Rectangle(left, top, right - left, bottom - top);
+    }
+}
+
+/**
+ * Represents a polygon.
+ */
+export class Polygon {
+    /**
+     * The corners of the polygon in order.
+     */
+    public Points: Point[];
+
+    /**
+     * @param points The corners of the polygon in order.
+     */
+    constructor(points: Point[] = []) {
+        this.Points = points;
+    }
+
+    /**
+     * Whether the polygon has no area.
+     */
+    public get IsEmpty(): boolean {
+        return this.Points.length < 3;
+    }
+
+    /**
+     * Returns the bounding box of the polygon.
+     */
+    public GetBounds(): BoundingBox {
+        if (this.Points.length === 0) {
+            return new BoundingBox(0, 0, 0, 0);
+        }
+
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (let point of this.Points) {
+            minX = Math.min(minX, point.X);
+            minY = Math.min(minY, point.Y);
+            maxX = Math.max(maxX, point.X);
+            maxY = Math.max(maxY, point.Y);
+        }
+
+        return new BoundingBox(minX, minY, maxX - minX, maxY - minY);
+    }
+
+    /**
+     * Projects the polygon onto an axis.
+     * @param axis Unit vector of the axis.
+     * @returns The smallest and largest positions along the axis.
+     */
+    public Project(axis: Point): number[] {
+        let min = Infinity, max = -Infinity;
+        for (let point of this.Points) {
+            const position = point.X * axis.X + point.Y * axis.Y;
+            min = Math.min(min, position);
+            max = Math.max(max, position);
+        }
+
+        return [min, max];
+    }
+
+    /**
+     * Returns the part of the polygon inside of a half-plane.
+     * @param plane The half-plane to clip to.
+     */
+    public ClipToHalfPlane(plane: HalfPlane): Polygon {
+        // Sutherland-Hodgman against a single edge.
+        const points: Point[] = [];
+        for (let i = 0; i < this.Points.length; ++i) {
+            const current = this.Points[i];
+            const next = this.Points[(i + 1) % this.Points.length];
+            const currentDistance = plane.Distance(current);
+            const nextDistance = plane.Distance(next);
+            if (currentDistance >= 0) {
+                points.push(current);
+            }
+
+            if ((currentDistance >= 0) !== (nextDistance >= 0)) {
+                points.push(Interpolate(current, next, currentDistance / (currentDistance - nextDistance)));
+            }
+        }
+
+        return new Polygon(points);
+    }
+}
+
+/**
+ * Represents the half of a plane on one side of a line. It contains the points
+ * whose position along the normal is at least the offset.
+ */
+export class HalfPlane {
+    /**
+     * Unit vector pointing into the half-plane.
+     */
+    public Normal: Point;
+
+    /**
+     * Position of the boundary line along the normal.
+     */
+    public Offset: number;
+
+    /**
+     * @param normal Unit vector pointing into the half-plane.
+     * @param offset Position of the boundary line along the normal.
+     */
+    constructor(normal: Point, offset: number) {
+        this.Normal = normal;
+        this.Offset = offset;
+    }
+
+    /**
+     * Creates a half-plane from the angle of its normal.
+     * @param degrees Angle of the normal in degrees clockwise from the X axis.
+     * @param offset Position of the boundary line along the normal.
+     */
+    public static FromAngle(degrees: number, offset: number): HalfPlane {
+        const radians = degrees * Math.PI / 180;
+        return new HalfPlane(new Point(Math.cos(radians), Math.sin(radians)), offset);
+    }
+
+    /**
+     * Gets the signed distance of a point from the boundary line. It's
+     * positive inside of the half-plane.
+     * @param point The point.
+     */
+    public Distance(point: Point): number {
+        return point.X * this.Normal.X + point.Y * this.Normal.Y - this.Offset;
+    }
+
+    /**
+     * Returns the half-plane on the other side of the boundary line.
+     */
+    public Flip(): HalfPlane {
+        return new HalfPlane(new Point(-this.Normal.X, -this.Normal.Y), -this.Offset);
+    }
+
+    /**
+     * Gets the part of the boundary line that crosses a convex polygon.
+     * @param polygon The polygon.
+     * @returns The two ends of the segment, or nothing if the line misses.
+     */
+    public GetBoundarySegment(polygon: Polygon): Point[] {
+        const ends: Point[] = [];
+        for (let i = 0; i < polygon.Points.length && ends.length < 2; ++i) {
+            const current = polygon.Points[i];
+            const next = polygon.Points[(i + 1) % polygon.Points.length];
+            const currentDistance = this.Distance(current);
+            const nextDistance = this.Distance(next);
+            if (currentDistance === 0) {
+                ends.push(current);
+            }
+            else if ((currentDistance > 0 && nextDistance < 0) || (currentDistance < 0 && nextDistance > 0)) {
+                ends.push(Interpolate(current, next, currentDistance / (currentDistance - nextDistance)));
+            }
+        }
+
+        return (ends.length === 2 ? ends : []);
+    }
+}
+
+/**
+ * Gets a point part of the way between two points.
+ * @param from The starting point.
+ * @param to The ending point.
+ * @param amount How far along the way in the range of 0-1.
+ */
+export function Interpolate(from: Point, to: Point, amount: number): Point {
+    return new Point(from.X + (to.X - from.X) * amount, from.Y + (to.Y - from.Y) * amount);
 }
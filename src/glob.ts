@@ -0,0 +1,162 @@
+/**
+ * @file Module for matching paths against wildcard patterns.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Matches the characters with a special meaning in a pattern.
+ */
+const WILDCARD_PATTERN = /[*?[]/;
+
+/**
+ * Whether a path has wildcards in it.
+ * @param value The path.
+ */
+export function IsGlobPattern(value: string): boolean {
+    return WILDCARD_PATTERN.test(value);
+}
+
+/**
+ * Turns one part of a pattern into a regular expression. "*" matches anything
+ * but a separator, "?" matches one character and "[abc]" or "[!abc]" match one
+ * character that is or isn't in the brackets.
+ * @param part The part of the pattern between separators.
+ */
+function PartToRegExp(part: string): RegExp {
+    let source = '';
+    for (let i = 0; i < part.length; ++i) {
+        const char = part[i];
+        if (char === '*') {
+            source += '.*';
+        }
+        else if (char === '?') {
+            source += '.';
+        }
+        else if (char === '[' && part.indexOf(']', i + 2) !== -1) {
+            const end = part.indexOf(']', i + 2);
+            let set = part.substring(i + 1, end);
+            const negated = (set[0] === '!' || set[0] === '^');
+            if (negated) {
+                set = set.substring(1);
+            }
+
+            source += '[' + (negated ? '^' : '') + set.replace(/[\\\]]/g, '\\$&') + ']';
+            i = end;
+        }
+        else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    // Case doesn't matter where the file system ignores it.
+    return new RegExp('^' + source + '$', (process.platform === 'win32' ? 'i' : ''));
+}
+
+/**
+ * Whether a path is a directory.
+ * @param file The path.
+ */
+function IsDirectory(file: string): boolean {
+    try {
+        return fs.statSync(file).isDirectory();
+    }
+    catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Lists the entries of a directory, or nothing if it can't be read.
+ * @param directory The directory.
+ */
+function ReadDirectory(directory: string): string[] {
+    try {
+        return fs.readdirSync(directory);
+    }
+    catch (e) {
+        return [];
+    }
+}
+
+/**
+ * Finds the paths below a directory matching the rest of a pattern.
+ * @param base The directory matched so far.
+ * @param parts The parts of the pattern left to match.
+ * @param matches The list the matching paths are added to.
+ */
+function MatchParts(base: string, parts: string[], matches: string[]) {
+    if (parts.length === 0) {
+        matches.push(base);
+        return;
+    }
+
+    const part = parts[0];
+    const rest = parts.slice(1);
+    if (part === '**') {
+        // Any number of directories, including none.
+        MatchParts(base, rest, matches);
+        for (let entry of ReadDirectory(base || '.')) {
+            const entryPath = path.join(base, entry);
+            if (entry[0] !== '.' && IsDirectory(entryPath)) {
+                MatchParts(entryPath, parts, matches);
+            }
+        }
+
+        return;
+    }
+
+    if (!IsGlobPattern(part)) {
+        const partPath = (base ? path.join(base, part) : part);
+        if (rest.length === 0 ? fs.existsSync(partPath) : IsDirectory(partPath)) {
+            MatchParts(partPath, rest, matches);
+        }
+
+        return;
+    }
+
+    const matcher = PartToRegExp(part);
+    for (let entry of ReadDirectory(base || '.').sort()) {
+        // Hidden files are only matched by patterns that ask for them.
+        if (entry[0] === '.' && part[0] !== '.') {
+            continue;
+        }
+
+        const entryPath = (base ? path.join(base, entry) : entry);
+        if (matcher.test(entry) && (rest.length === 0 || IsDirectory(entryPath))) {
+            MatchParts(entryPath, rest, matches);
+        }
+    }
+}
+
+/**
+ * Finds the paths matching a pattern. Besides the wildcards of a single part,
+ * "**" matches any number of directories.
+ * @param pattern The pattern, such as "clips/*.mp4".
+ * @returns The matching paths, sorted.
+ */
+export function Glob(pattern: string): string[] {
+    const root = path.parse(pattern).root;
+    const parts = pattern.substring(root.length).split(/[\\/]+/).filter((part) => part !== '');
+    const matches: string[] = [];
+    MatchParts(root, parts, matches);
+    return matches.filter((match, index) => matches.indexOf(match) === index).sort();
+}
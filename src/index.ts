@@ -19,7 +19,19 @@
  */
 
 import { ArgumentParser } from 'argparse';
-import { BlueLineGenerator } from './blueline';
+import { BatchJob, ExpandInputs, FillOutputTemplate, FormatBatchSummary, GetDefaultOutput, OUTPUT_PLACEHOLDERS, RunBatch, ValidateBatchOutputs } from './batch';
+import { BlueLineGenerator, BlueLineGeneratorOptions, GenerateResult, GenerateStage } from './blueline';
+import { Color, ParseColor } from './color';
+import { LoadConfigFile, LoadPreset, MergeOptions, PRESET_DIRECTORY } from './config';
+import { EFFECT_NAMES } from './effects';
+import { DEFAULT_PIXEL_FORMAT } from './encoder';
+import { ParseDashPattern, ParseDimension } from './linestyle';
+import { LogError, LogInfo, LogWarning } from './log';
+import { ParseRegion } from './region';
+import { SIDECAR_FORMATS } from './sidecar';
+import { IsStdio, STDIO_PATH } from './stdio';
+import { SWEEP_SHAPE_NAMES } from './sweep';
+import { EASING_NAMES, ParseTime, ParseTimeOrAuto, ReadKeyframes } from './timing';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as process from 'process';
@@ -32,10 +44,52 @@ const VERSION_FILE = path.join(path.dirname(__dirname), 'VERSION');
  * @param error Error to send.
  */
 function OnError(error: any) {
-    console.error('An error occured: ' + error);
+    LogError(error);
     process.exit(1);
 }
 
+/**
+ * Messages logged when the generator starts each stage.
+ */
+const STAGE_MESSAGES: { [stage in GenerateStage]: string } = {
+    reading: 'Reading input from stdin...',
+    probing: 'Probing input...',
+    rendering: 'Creating effect...',
+    finishing: 'Finishing output...'
+};
+
+/**
+ * Logs what was generated.
+ * @param result The result of the generator.
+ */
+function OnDone(result: GenerateResult) {
+    LogInfo(`Output to ${IsStdio(result.output) ? 'stdout' : `"${result.output}"`}`);
+    for (let sidecarPath of result.sidecars) {
+        LogInfo(`Sidecar written to "${sidecarPath}"`);
+    }
+
+    LogInfo(`${result.frames} frames in ${result.timings.total.toFixed(1)} seconds.`);
+}
+
+/**
+ * Reads the colour of the line, given either as three RGB values in the range
+ * of 0-255 or as any colour ParseColor understands.
+ * @param values The values given for the option.
+ */
+function ReadLineColor(values: string[]): Color {
+    if (values.length === 3 && values.every((value) => /^\d+$/.test(value))) {
+        const rgb = values.map(Number);
+        if (rgb.some((value) => value > 255)) {
+            throw new Error(`Invalid colour "${values.join(' ')}". RGB values must be in the range of 0-255.`);
+        }
+
+        return new Color(rgb[0], rgb[1], rgb[2]);
+    }
+
+    // Unquoted functions such as rgb(0 194 203) get split up by the shell.
+    return ParseColor(values.join(' '));
+}
+
 /**
  * The stored version of the application.
  * @type {string}
@@ -45,7 +99,7 @@ try {
     version = fs.readFileSync(VERSION_FILE, { encoding: 'ascii' });
 }
 catch (e) {
-    console.warn('Warning: ' + e);
+    LogWarning(e);
     version = '?.?.?';
 }
 
@@ -53,7 +107,8 @@ const parser = new ArgumentParser({
     description: 'Generates a blue line effect for a given video.'
 });
 parser.add_argument('input', {
-    help: 'Video file to input.'
+    nargs: '+',
+    help: 'Video files to input, image sequences as patterns such as shot_%%04d.png or directories of numbered images, directories of videos, patterns with wildcards such as "clips/*.mp4", or - for stdin. More than one input runs them as a batch.'
 });
 parser.add_argument('-v', '--version', {
     action: 'version',
@@ -61,80 +116,409 @@ parser.add_argument('-v', '--version', {
 });
 parser.add_argument('-o', '--output', {
     nargs: 1,
-    help: 'Output file.'
+    help: `Output file, an image sequence as a pattern such as frames/out_%%04d.png, or - for stdout. Can hold the placeholders ${OUTPUT_PLACEHOLDERS.map((name) => `{${name}}`).join(', ')}, such as "{name}_{dir}_{color}.mp4", which are filled in for each input. Default is named after the input and written next to it, or stdout when reading from stdin.`
+});
+parser.add_argument('--config', {
+    nargs: 1,
+    help: 'JSON or YAML file of settings named like the options of the generator, such as {"lineColor": "#ff0000", "tail": 2}. Arguments given on the command line override them.'
+});
+parser.add_argument('--preset', {
+    nargs: 1,
+    help: `Named preset of settings to use, either built in or a JSON or YAML file in ${PRESET_DIRECTORY.replace(/%/g, '%%')}. It overrides the config, and arguments given on the command line override it.`
+});
+parser.add_argument('--concurrency', {
+    nargs: 1,
+    type: 'int',
+    help: 'Number of inputs of a batch generated at once. Default is 1.'
+});
+parser.add_argument('--format', {
+    nargs: 1,
+    help: 'FFmpeg name of the format of the output, such as matroska, mp4 or nut. Needed when writing to stdout. Default is picked from the extension of the output.'
 });
 parser.add_argument('--ffmpeg', {
     nargs: 1,
     help: 'Path to FFmpeg.'
 });
-parser.add_argument('-m', '--max-buffer', {
+parser.add_argument('--ffprobe', {
     nargs: 1,
-    type: 'int',
-    help: `Largest number of bytes on stdout when running FFmpeg. Default is ${BlueLineGenerator.DEFAULT_MAX_BUFFER}`,
-    default: BlueLineGenerator.DEFAULT_MAX_BUFFER
+    help: 'Path to FFprobe. Default is the one next to FFmpeg.'
 });
 parser.add_argument('-l', '--length', {
     nargs: 1,
-    type: 'int',
-    help: `Length of the effect in seconds. Default is ${BlueLineGenerator.DEFAULT_LENGTH}.`,
-    default: BlueLineGenerator.DEFAULT_LENGTH
+    type: ParseTimeOrAuto,
+    help: `Length of the effect in seconds, or "auto" to sweep across the whole input. Default is ${BlueLineGenerator.DEFAULT_LENGTH} or the duration of the input, whichever is shorter.`
 });
 parser.add_argument('-f', '--fps', {
     nargs: 1,
     type: 'float',
-    help: `Framerate of the target video. Default is ${BlueLineGenerator.DEFAULT_FRAMERATE}.`,
-    default: BlueLineGenerator.DEFAULT_FRAMERATE
+    help: `Framerate of the target video. Default is the framerate of the input.`
 })
 parser.add_argument('-d', '--dir', {
     nargs: 1,
     choices: ['left', 'right', 'up', 'down'],
-    help: `Which direction the line should go. Default is ${BlueLineGenerator.DEFAULT_LINE_DIRECTION}.`,
-    default: BlueLineGenerator.DEFAULT_LINE_DIRECTION
+    help: `Which direction the line should go. Default is ${BlueLineGenerator.DEFAULT_LINE_DIRECTION}.`
+});
+parser.add_argument('--angle', {
+    nargs: 1,
+    type: 'float',
+    help: 'Angle the line goes in degrees clockwise from going right. Overrides the direction, where right, down, left and up are 0, 90, 180 and 270. For the clock shape it is where the ray starts, clockwise from 12 o\'clock.'
+});
+parser.add_argument('-M', '--mode', {
+    nargs: 1,
+    choices: ['freeze', 'reveal', 'ping-pong'],
+    help: `What the line does. "freeze" freezes what it passes, "reveal" starts frozen and uncovers live video as it passes and "ping-pong" sweeps across freezing, then back releasing. A ping-pong sweep takes the whole length, half each way. Default is ${BlueLineGenerator.DEFAULT_MODE}.`
+});
+parser.add_argument('--effect', {
+    nargs: 1,
+    choices: EFFECT_NAMES,
+    help: `How the frozen area is composited. "blueline" freezes it, "slit-scan" fills it with slices of past frames that get older further from the line and "smear" stretches what is under the line across it. Default is ${BlueLineGenerator.DEFAULT_EFFECT}.`
+});
+parser.add_argument('--slit-delay', {
+    nargs: 1,
+    type: 'int',
+    help: `How many frames back the slit-scan effect reaches at the far side of the frame. Default is ${BlueLineGenerator.DEFAULT_SLIT_DELAY}.`
+});
+parser.add_argument('--still', {
+    nargs: 1,
+    help: 'Image that reveal mode starts frozen on instead of the first frame of the sweep.'
+});
+parser.add_argument('--shape', {
+    nargs: 1,
+    choices: SWEEP_SHAPE_NAMES,
+    help: `Shape of the sweep. "line" is a straight line, "radial" a growing circle, "clock" a ray turning like a clock hand, "center-out" two lines going outwards from the centre and "edges-in" two lines coming in from the edges. Default is ${BlueLineGenerator.DEFAULT_SWEEP_SHAPE}.`
+});
+parser.add_argument('--region', {
+    action: 'append',
+    help: 'Box of the frame to sweep as "x,y,w,h" in pixels or percentages of the frame, so the rest plays normally. Can be followed by ",angle=..", ",shape=..", ",easing=..", ",delay=.." and ",length=.." in seconds to give it its own sweep. Can be given more than once for regions that don\'t overlap.'
+});
+parser.add_argument('--easing', {
+    nargs: 1,
+    help: `Easing of the line's movement. Either one of ${EASING_NAMES.join(', ')} or "cubic-bezier(x1, y1, x2, y2)". Default is ${BlueLineGenerator.DEFAULT_EASING}.`
+});
+parser.add_argument('--keyframes', {
+    nargs: 1,
+    help: 'Positions of the line over time as "time=position,..." with positions in the range of 0-1, or the path to a JSON file holding a list of {"time", "position", "easing"} objects. The length defaults to the time of the last keyframe.'
+});
+parser.add_argument('--feather', {
+    nargs: 1,
+    type: 'float',
+    help: 'Width in pixels of a soft edge between the frozen and live parts of the video. Default is 0.'
 });
 parser.add_argument('-c', '--codec', {
     nargs: 1,
-    choices: ['mjpeg', 'png'],
-    help: `The codec to use for exporting frames. Default is ${BlueLineGenerator.DEFAULT_FRAME_CODEC}.`,
-    default: BlueLineGenerator.DEFAULT_FRAME_CODEC
+    choices: ['rawvideo', 'mjpeg', 'png'],
+    help: `The codec to use for exporting frames. Default is ${BlueLineGenerator.DEFAULT_FRAME_CODEC}.`
 });
-parser.add_argument('--color', {
-    nargs: 3,
+parser.add_argument('-j', '--jobs', {
+    nargs: 1,
     type: 'int',
-    metavar: '{0-255}',
-    help: 'RGB values for the colour of the line in the range of 0-255 for each component.'
+    help: `Number of threads compositing and encoding frames. Default is ${BlueLineGenerator.DEFAULT_JOBS}.`
+});
+parser.add_argument('--color', {
+    nargs: '+',
+    metavar: 'COLOR',
+    help: `Colour of the line. Either three RGB values in the range of 0-255, a hexadecimal colour such as #00c2cb, a colour name, or rgb(), rgba(), hsl() or hsla(). Default is ${BlueLineGenerator.DEFAULT_LINE_COLOR.ToHexString()}.`
+});
+parser.add_argument('-s', '--start', {
+    nargs: 1,
+    type: ParseTime,
+    help: 'Time into the input where the sweep starts, in seconds or as [[hh:]mm:]ss. Default is 0.'
+});
+parser.add_argument('--lead-in', {
+    nargs: 1,
+    type: ParseTime,
+    help: 'Length of untouched video to include before the sweep, taken from before the start. Default is 0.'
+});
+parser.add_argument('--tail', {
+    nargs: 1,
+    type: ParseTimeOrAuto,
+    help: 'Length of video to include after the sweep, or "auto" for the rest of the input. Default is 0.'
+});
+parser.add_argument('--tail-mode', {
+    nargs: 1,
+    choices: ['hold', 'crossfade', 'cut'],
+    help: `What happens to the frozen result after the sweep in freeze mode. "hold" keeps it, "crossfade" fades it back to the live video and "cut" goes straight back to the live video. Default is ${BlueLineGenerator.DEFAULT_TAIL_MODE}.`
+});
+parser.add_argument('--crossfade', {
+    nargs: 1,
+    type: ParseTime,
+    help: `Length of the crossfade when the tail mode is crossfade. Default is ${BlueLineGenerator.DEFAULT_CROSSFADE}.`
+});
+parser.add_argument('-a', '--audio', {
+    nargs: 1,
+    help: `Audio of the output. Either "keep" to use the input's audio, "none" to drop it or the path to an audio file to use instead. Default is ${BlueLineGenerator.DEFAULT_AUDIO}.`
+});
+parser.add_argument('--export', {
+    nargs: 1,
+    choices: ['video', 'overlay', 'matte'],
+    help: 'What to write out. "video" is the finished effect, "overlay" is only the line on a transparent background for compositing, written as a .mov (ProRes 4444), .webm (VP9) or .png sequence, and "matte" is the frozen area in white on black. Overlays and mattes have no audio. Default is video.'
+});
+parser.add_argument('--sidecar', {
+    nargs: '+',
+    choices: SIDECAR_FORMATS,
+    help: 'Formats of sidecar files to write next to the output, listing the time, source frame, line endpoints and frozen area bounds of every frame. "ae" is After Effects keyframe data for two point controls following the ends of the line.'
+});
+parser.add_argument('--vcodec', {
+    nargs: 1,
+    help: 'FFmpeg name of the video codec of the output, such as libx264, libx265, libvpx-vp9, prores_ks or gif. Default depends on the extension of the output: libvpx-vp9 for .webm, gif for .gif and libx264 for anything else.'
+});
+parser.add_argument('--crf', {
+    nargs: 1,
+    type: 'float',
+    help: 'Constant rate factor of the output, where lower is better quality. Default is the one of the codec.'
+});
+parser.add_argument('--bitrate', {
+    nargs: 1,
+    help: 'Target bitrate of the output, such as 8M or 2500k.'
+});
+parser.add_argument('--encoder-preset', {
+    nargs: 1,
+    help: 'Speed preset of the encoder, such as "slow" for libx264 and libx265. This used to be --preset, which now picks a preset of settings.'
+});
+parser.add_argument('--pix-fmt', {
+    nargs: 1,
+    help: `Pixel format of the output. Default is ${DEFAULT_PIXEL_FORMAT}, which every player supports, or yuv422p10le for ProRes.`
 });
 
-const args = parser.parse_args();
+parser.add_argument('--line-width', {
+    nargs: 1,
+    help: `Thickness of the line in pixels, or as a percentage of the shorter side of the video such as "0.5%%". Default is ${BlueLineGenerator.DEFAULT_LINE_WIDTH} at 1080p, scaled to the size of the input.`
+});
+parser.add_argument('--glow-radius', {
+    nargs: 1,
+    help: `How far the glow of the line spreads in pixels, or as a percentage of the shorter side of the video. Default is ${BlueLineGenerator.DEFAULT_GLOW_RADIUS} at 1080p, scaled to the size of the input.`
+});
+parser.add_argument('--glow-strength', {
+    nargs: 1,
+    type: 'float',
+    help: `How strong the glow is. 0 turns it off and higher values stack it. Default is ${BlueLineGenerator.DEFAULT_GLOW_STRENGTH}.`
+});
+parser.add_argument('--glow-color', {
+    nargs: 1,
+    help: 'Colour of the glow, in any form --color accepts. Default is the colour of the line.'
+});
+parser.add_argument('--gradient', {
+    nargs: '+',
+    metavar: 'COLOR',
+    help: 'Colours the line fades through from one end to the other, replacing the colour of the line.'
+});
+parser.add_argument('--dash', {
+    nargs: 1,
+    help: 'Dash pattern of the line. Either "solid", "dash", "dot" or a comma separated list of the lengths of dashes and gaps. Default is solid.'
+});
+parser.add_argument('--halo-width', {
+    nargs: 1,
+    help: 'Thickness of a halo around the line on each side in pixels, or as a percentage of the shorter side of the video. Default is 0.'
+});
+parser.add_argument('--halo-color', {
+    nargs: 1,
+    help: 'Colour of the halo, in any form --color accepts. Default is a lighter, half transparent version of the colour of the line.'
+});
 
-if (!args.output) {
-    // Default output name.
-    let filename = path.basename(args.input);
-    let extensionIndex = filename.lastIndexOf('.');
-    if (extensionIndex !== -1) {
-        filename = filename.substring(0, extensionIndex) + '_blueline.mp4';
-    }
-    else {
-        filename = filename + '_blueline';
-    }
+parser.add_argument('--tint', {
+    nargs: 1,
+    metavar: 'COLOR',
+    help: 'Colour to tint the frozen region with, in any form --color accepts. Its alpha is how strong the tint is, such as "rgba(0, 80, 255, 0.3)".'
+});
+parser.add_argument('--desaturate', {
+    nargs: 1,
+    choices: ['grey', 'sepia'],
+    help: 'Takes the colour out of the frozen region, leaving grey or sepia.'
+});
+parser.add_argument('--desaturate-amount', {
+    nargs: 1,
+    type: 'float',
+    help: 'How much to desaturate the frozen region in the range of 0-1. Default is 1.'
+});
+parser.add_argument('--brightness', {
+    nargs: 1,
+    type: 'float',
+    help: 'What to multiply the brightness of the frozen region by. Default is 1.'
+});
+parser.add_argument('--contrast', {
+    nargs: 1,
+    type: 'float',
+    help: 'What to multiply the contrast of the frozen region by. Default is 1.'
+});
+parser.add_argument('--blur', {
+    nargs: 1,
+    help: 'Radius of a Gaussian blur of the frozen region in pixels, or as a percentage of the shorter side of the video. Default is 0.'
+});
+parser.add_argument('--vignette', {
+    nargs: 1,
+    type: 'float',
+    help: 'How dark the corners of the frozen region get in the range of 0-1. Default is 0.'
+});
+parser.add_argument('--fade-in-treatment', {
+    action: 'store_true',
+    help: 'Fade the treatment of the frozen region in as the sweep progresses.'
+});
 
-    args.output = path.join(path.dirname(args.input), filename);
-}
+const args = parser.parse_args();
 
-try {
-    const generator = new BlueLineGenerator({
-        input: args.input,
-        output: (Array.isArray(args.output) ? args.output[0] : args.output),
+/**
+ * Creates the options of the generator given as arguments. Options that weren't
+ * given are left undefined, and the input is filled in later.
+ */
+function CreateOptions(): BlueLineGeneratorOptions {
+    return {
+        input: undefined,
+        output: (args.output ? args.output[0] : undefined),
+        format: (args.format ? args.format[0] : undefined),
         ffmpegPath: (args.ffmpeg ? args.ffmpeg[0] : undefined),
-        maxBuffer: (args.max_buffer ? args.max_buffer[0] : undefined),
+        ffprobePath: (args.ffprobe ? args.ffprobe[0] : undefined),
         length: (args.length ? args.length[0] : undefined),
         lineDirection: (args.dir ? args.dir[0] : undefined),
+        angle: (args.angle ? args.angle[0] : undefined),
+        mode: (args.mode ? args.mode[0] : undefined),
+        effect: (args.effect ? args.effect[0] : undefined),
+        slitDelay: (args.slit_delay ? args.slit_delay[0] : undefined),
+        still: (args.still ? args.still[0] : undefined),
+        sweepShape: (args.shape ? args.shape[0] : undefined),
+        regions: (args.region ? args.region.map((value: string) => ParseRegion(value)) : undefined),
+        easing: (args.easing ? args.easing[0] : undefined),
+        keyframes: (args.keyframes ? ReadKeyframes(args.keyframes[0]) : undefined),
+        feather: (args.feather ? args.feather[0] : undefined),
         frameCodec: (args.codec ? args.codec[0] : undefined),
-        lineColor: args.color,
-        fps: (args.fps ? args.fps[0] : undefined)
-    }, OnError);
+        jobs: (args.jobs ? args.jobs[0] : undefined),
+        lineColor: (args.color ? ReadLineColor(args.color) : undefined),
+        lineWidth: (args.line_width ? ParseDimension(args.line_width[0]) : undefined),
+        glowRadius: (args.glow_radius ? ParseDimension(args.glow_radius[0]) : undefined),
+        glowStrength: (args.glow_strength ? args.glow_strength[0] : undefined),
+        glowColor: (args.glow_color ? ParseColor(args.glow_color[0]) : undefined),
+        lineGradient: (args.gradient ? args.gradient.map((value: string) => ParseColor(value)) : undefined),
+        lineDash: (args.dash ? ParseDashPattern(args.dash[0]) : undefined),
+        haloWidth: (args.halo_width ? ParseDimension(args.halo_width[0]) : undefined),
+        haloColor: (args.halo_color ? ParseColor(args.halo_color[0]) : undefined),
+        tint: (args.tint ? ParseColor(args.tint[0]) : undefined),
+        desaturate: (args.desaturate ? args.desaturate[0] : undefined),
+        desaturateAmount: (args.desaturate_amount ? args.desaturate_amount[0] : undefined),
+        brightness: (args.brightness ? args.brightness[0] : undefined),
+        contrast: (args.contrast ? args.contrast[0] : undefined),
+        blur: (args.blur ? ParseDimension(args.blur[0]) : undefined),
+        vignette: (args.vignette ? args.vignette[0] : undefined),
+        treatmentFadeIn: (args.fade_in_treatment || undefined),
+        exportMode: (args.export ? args.export[0] : undefined),
+        sidecar: args.sidecar,
+        videoCodec: (args.vcodec ? args.vcodec[0] : undefined),
+        crf: (args.crf ? args.crf[0] : undefined),
+        bitrate: (args.bitrate ? args.bitrate[0] : undefined),
+        preset: (args.encoder_preset ? args.encoder_preset[0] : undefined),
+        pixelFormat: (args.pix_fmt ? args.pix_fmt[0] : undefined),
+        fps: (args.fps ? args.fps[0] : undefined),
+        audio: (args.audio ? args.audio[0] : undefined),
+        start: (args.start ? args.start[0] : undefined),
+        leadIn: (args.lead_in ? args.lead_in[0] : undefined),
+        tail: (args.tail ? args.tail[0] : undefined),
+        tailMode: (args.tail_mode ? args.tail_mode[0] : undefined),
+        crossfade: (args.crossfade ? args.crossfade[0] : undefined)
+    };
+}
+
+/**
+ * Loads the options from the config file and preset, with the arguments
+ * overriding them.
+ */
+function LoadOptions(): BlueLineGeneratorOptions {
+    const config = (args.config ? LoadConfigFile(args.config[0]) : {});
+    const preset = (args.preset ? LoadPreset(args.preset[0]) : {});
+    return MergeOptions([config, preset], CreateOptions());
+}
+
+/**
+ * Gets where an input is written to.
+ * @param input The input.
+ * @param options The options shared by every input.
+ */
+function GetOutput(input: string, options: BlueLineGeneratorOptions): string {
+    if (!options.output) {
+        // Work as a filter between pipes.
+        return (IsStdio(input) ? STDIO_PATH : GetDefaultOutput(input, options.exportMode || BlueLineGenerator.DEFAULT_EXPORT_MODE));
+    }
+
+    return FillOutputTemplate(options.output, input, {
+        dir: (options.angle !== undefined ? options.angle.toString() : options.lineDirection || BlueLineGenerator.DEFAULT_LINE_DIRECTION),
+        color: (options.lineColor || BlueLineGenerator.DEFAULT_LINE_COLOR).ToHexString().substring(1),
+        effect: options.effect || BlueLineGenerator.DEFAULT_EFFECT,
+        mode: options.mode || BlueLineGenerator.DEFAULT_MODE
+    });
+}
 
-    generator.Generate();
+/**
+ * Generates the effect for one input, logging how it goes.
+ * @param options The options of the generator.
+ */
+function GenerateSingle(options: BlueLineGeneratorOptions) {
+    const generator = new BlueLineGenerator(options);
+    let stage: GenerateStage = null;
+    generator.on('progress', function(progress) {
+        if (progress.stage !== stage) {
+            stage = progress.stage;
+            LogInfo(STAGE_MESSAGES[stage]);
+        }
+    });
+    generator.on('frame', (frameNum) => LogInfo('Frame #' + frameNum));
+    generator.on('warning', (message) => LogWarning(message));
+    generator.on('done', OnDone);
+    generator.Generate().catch(OnError);
+}
+
+/**
+ * Generates the effect for every input of a batch, then logs a summary and
+ * exits with an error if any of them failed.
+ * @param jobs The inputs and their outputs.
+ * @param options The options shared by every input.
+ */
+async function GenerateBatch(jobs: BatchJob[], options: BlueLineGeneratorOptions) {
+    const concurrency = (args.concurrency ? args.concurrency[0] : 1);
+    if (!(concurrency >= 1)) {
+        throw new Error('The concurrency must be at least 1.');
+    }
+
+    ValidateBatchOutputs(jobs);
+    LogInfo(`Generating ${jobs.length} inputs, ${concurrency} at a time.`);
+    const results = await RunBatch(jobs, concurrency, async function(job: BatchJob): Promise<GenerateResult> {
+        // Jobs run side by side, so say which one each message is about.
+        const prefix = `[${path.basename(job.input)}] `;
+        try {
+            const generator = new BlueLineGenerator({ ...options, ...job });
+            let stage: GenerateStage = null;
+            generator.on('progress', function(progress) {
+                if (progress.stage !== stage) {
+                    stage = progress.stage;
+                    LogInfo(prefix + STAGE_MESSAGES[stage]);
+                }
+            });
+            generator.on('warning', (message) => LogWarning(prefix + message));
+            return await generator.Generate();
+        }
+        catch (error) {
+            LogError(prefix + error.message);
+            throw error;
+        }
+    });
+
+    LogInfo('\n' + FormatBatchSummary(results));
+    if (results.some((result) => result.error)) {
+        process.exit(1);
+    }
+}
+
+try {
+    const inputs = ExpandInputs(args.input);
+    const options = LoadOptions();
+    const jobs = inputs.map((input) => ({ input, output: GetOutput(input, options) }));
+    if (jobs.length === 1) {
+        GenerateSingle({ ...options, ...jobs[0] });
+    }
+    else if (jobs.some((job) => IsStdio(job.output))) {
+        throw new Error('Only one input can be written to stdout.');
+    }
+    else {
+        GenerateBatch(jobs, options).catch(OnError);
+    }
 }
 catch (error) {
-    console.error('An error occured: ' + error);
+    LogError(error);
+    process.exit(1);
 }
@@ -0,0 +1,300 @@
+/**
+ * @file Module for styling the line.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { SKRSContext2D } from '@napi-rs/canvas';
+import { Color, Lighten } from './color';
+import { Point, Size } from './geom';
+import { AddLineToPath } from './paths';
+
+/**
+ * The frame size that default sizes are given for. Defaults are scaled by the
+ * shorter side of the frame compared to this.
+ */
+const REFERENCE_FRAME_SIZE = 1080;
+
+/**
+ * A size in pixels, or a string of pixels ("8" or "8px") or a percentage of
+ * the shorter side of the frame ("0.5%").
+ */
+export type Dimension = (number | string);
+
+/**
+ * A dash pattern. 'solid' has no gaps, 'dash' and 'dot' scale with the width of
+ * the line and a list gives the lengths of the dashes and gaps.
+ */
+export type DashPattern = ('solid' | 'dash' | 'dot' | Dimension[]);
+
+/**
+ * How the line looks.
+ */
+export interface LineStyle {
+    /**
+     * The colour of the line.
+     */
+    color: Color;
+
+    /**
+     * The thickness of the line.
+     */
+    width: Dimension;
+
+    /**
+     * How far the glow spreads.
+     */
+    glowRadius: Dimension;
+
+    /**
+     * How strong the glow is. 1 is normal, 0 turns it off and higher values
+     * stack it.
+     */
+    glowStrength: number;
+
+    /**
+     * The colour of the glow. Defaults to the colour of the line.
+     */
+    glowColor: Color;
+
+    /**
+     * Colours the line fades through from one end to the other, replacing the
+     * colour.
+     */
+    gradient: Color[];
+
+    /**
+     * The dash pattern.
+     */
+    dash: DashPattern;
+
+    /**
+     * The thickness of a halo around the line on each side. 0 turns it off.
+     */
+    haloWidth: Dimension;
+
+    /**
+     * The colour of the halo. Defaults to a lighter, half transparent version
+     * of the colour of the line.
+     */
+    haloColor: Color;
+}
+
+/**
+ * Parses a dimension.
+ * @param value Pixels, or a percentage of the shorter side of the frame.
+ */
+export function ParseDimension(value: string): Dimension {
+    const match = /^(\d+(?:\.\d+)?|\.\d+)(px|%)?$/.exec(value.trim());
+    if (!match) {
+        throw new Error(`Invalid size "${value}". Expected pixels such as 8 or 8px, or a percentage such as 0.5%.`);
+    }
+
+    return (match[2] === '%' ? value.trim() : parseFloat(match[1]));
+}
+
+/**
+ * Parses a dash pattern.
+ * @param value "solid", "dash", "dot" or a comma separated list of sizes.
+ */
+export function ParseDashPattern(value: string): DashPattern {
+    if (value === 'solid' || value === 'dash' || value === 'dot') {
+        return value;
+    }
+
+    return value.split(',').map(ParseDimension);
+}
+
+/**
+ * Turns a dimension into pixels.
+ * @param value The dimension.
+ * @param frameSize The size of the frame.
+ */
+export function ResolveDimension(value: Dimension, frameSize: Size): number {
+    const parsed = (typeof value === 'string' ? ParseDimension(value) : value);
+    if (typeof parsed === 'string') {
+        return parseFloat(parsed) / 100 * Math.min(frameSize.Width, frameSize.Height);
+    }
+
+    return parsed;
+}
+
+/**
+ * Scales a size given for the reference frame size to a frame.
+ * @param pixels Pixels for the reference frame size.
+ * @param frameSize The size of the frame.
+ */
+export function ScaleToFrame(pixels: number, frameSize: Size): number {
+    return pixels * Math.min(frameSize.Width, frameSize.Height) / REFERENCE_FRAME_SIZE;
+}
+
+/**
+ * Draws lines in a style resolved for a frame size.
+ */
+export class LineRenderer {
+    /**
+     * The style of the lines.
+     */
+    private style: LineStyle;
+
+    /**
+     * Thickness of the line in pixels.
+     */
+    private width: number;
+
+    /**
+     * Blur of the glow in pixels.
+     */
+    private glowRadius: number;
+
+    /**
+     * Thickness of the halo on each side in pixels.
+     */
+    private haloWidth: number;
+
+    /**
+     * Lengths of the dashes and gaps in pixels.
+     */
+    private dash: number[];
+
+    /**
+     * @param style The style of the lines. Sizes left unset use the defaults
+     * scaled to the frame.
+     * @param frameSize The size of the frame.
+     * @param defaultWidth Default thickness of the line for the reference frame
+     * size.
+     * @param defaultGlowRadius Default glow radius for the reference frame size.
+     */
+    constructor(style: LineStyle, frameSize: Size, defaultWidth: number, defaultGlowRadius: number) {
+        this.style = style;
+        this.width = (style.width !== undefined && style.width !== null ? ResolveDimension(style.width, frameSize) : ScaleToFrame(defaultWidth, frameSize));
+        this.glowRadius = (style.glowRadius !== undefined && style.glowRadius !== null ? ResolveDimension(style.glowRadius, frameSize) : ScaleToFrame(defaultGlowRadius, frameSize));
+        this.haloWidth = (style.haloWidth ? ResolveDimension(style.haloWidth, frameSize) : 0);
+
+        switch (style.dash) {
+            case 'dash': {
+                this.dash = [this.width * 3, this.width * 2];
+                break;
+            }
+            case 'dot': {
+                // Round caps turn zero length dashes into dots.
+                this.dash = [0, this.width * 2];
+                break;
+            }
+            case 'solid':
+            case undefined:
+            case null: {
+                this.dash = [];
+                break;
+            }
+            default: {
+                this.dash = style.dash.map((value) => ResolveDimension(value, frameSize));
+                break;
+            }
+        }
+    }
+
+    /**
+     * Draws lines.
+     * @param context The context to draw on.
+     * @param lines The lines, each as a list of points to connect.
+     */
+    public Draw(context: SKRSContext2D, lines: Point[][]) {
+        const style = this.style;
+        context.save();
+        context.lineCap = (style.dash === 'dot' ? 'round' : 'butt');
+        context.lineJoin = 'round';
+        context.setLineDash(this.dash);
+
+        if (this.haloWidth > 0) {
+            context.strokeStyle = (style.haloColor || Lighten(style.color, 0.25).WithAlpha(0.5)).ToCssString();
+            context.lineWidth = this.width + this.haloWidth * 2;
+            for (let line of lines) {
+                this.StrokeLine(context, line);
+            }
+        }
+
+        // Every stroke adds to the glow, so stronger glows stroke again. The
+        // last stroke only adds what's left of the strength, so a strength of
+        // 1.2 glows less than 2.
+        const glowStrength = Math.max(0, style.glowStrength);
+        const passes = Math.max(1, Math.ceil(glowStrength));
+        context.lineWidth = this.width;
+        context.shadowBlur = (glowStrength > 0 ? this.glowRadius : 0);
+        const glowColor = style.glowColor || style.color;
+        const shadowColors: string[] = [];
+        for (let i = 0; i < passes; ++i) {
+            shadowColors.push(glowColor.WithAlpha(glowColor.Alpha * Math.min(1, glowStrength - i)).ToCssString());
+        }
+
+        for (let line of lines) {
+            context.strokeStyle = this.GetStrokeStyle(context, line);
+            for (let shadowColor of shadowColors) {
+                context.shadowColor = shadowColor;
+                this.StrokeLine(context, line);
+            }
+        }
+
+        context.restore();
+    }
+
+    /**
+     * Strokes a single line.
+     * @param context The context to draw on.
+     * @param line The points of the line.
+     */
+    private StrokeLine(context: SKRSContext2D, line: Point[]) {
+        context.beginPath();
+        AddLineToPath(context, line);
+        context.stroke();
+    }
+
+    /**
+     * Gets the colour or gradient to stroke a line with.
+     * @param context The context to draw on.
+     * @param line The points of the line.
+     */
+    private GetStrokeStyle(context: SKRSContext2D, line: Point[]): string | CanvasGradient {
+        const gradientColors = this.style.gradient;
+        if (!gradientColors || gradientColors.length === 0) {
+            return this.style.color.ToCssString();
+        }
+
+        if (gradientColors.length === 1) {
+            return gradientColors[0].ToCssString();
+        }
+
+        // Fade from the start of the line to the point furthest from it.
+        const start = line[0];
+        let end = start;
+        let furthest = 0;
+        for (let point of line) {
+            const distance = Math.hypot(point.X - start.X, point.Y - start.Y);
+            if (distance > furthest) {
+                furthest = distance;
+                end = point;
+            }
+        }
+
+        const gradient = context.createLinearGradient(start.X, start.Y, end.X, end.Y);
+        gradientColors.forEach(function(color: Color, index: number) {
+            gradient.addColorStop(index / (gradientColors.length - 1), color.ToCssString());
+        });
+
+        return gradient;
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * @file Module for logging messages.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import * as util from 'util';
+
+/**
+ * Writes a line to stderr. Everything is logged there so stdout only ever
+ * holds the output when it's piped.
+ * @param message The message, formatted like console.log.
+ * @param params Values for the message.
+ */
+function Write(message: any, params: any[]) {
+    process.stderr.write(util.format(message, ...params) + '\n');
+}
+
+/**
+ * Logs information about the progress.
+ * @param message The message, formatted like console.log.
+ * @param params Values for the message.
+ */
+export function LogInfo(message: any, ...params: any[]) {
+    Write(message, params);
+}
+
+/**
+ * Logs something that went wrong without stopping anything.
+ * @param message The message, formatted like console.log.
+ * @param params Values for the message.
+ */
+export function LogWarning(message: any, ...params: any[]) {
+    Write('Warning: ' + message, params);
+}
+
+/**
+ * Logs an error.
+ * @param message The message, formatted like console.log.
+ * @param params Values for the message.
+ */
+export function LogError(message: any, ...params: any[]) {
+    Write('An error occured: ' + message, params);
+}
@@ -0,0 +1,207 @@
+/**
+ * @file Module for making and keeping frames in memory without any files.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { createCanvas, Canvas } from '@napi-rs/canvas';
+import { Color, HslToRgb } from './color';
+import { Frame, FrameSink, FrameSource } from './frames';
+import { Size } from './geom';
+import { MediaInfo } from './probe';
+
+/**
+ * What the synthetic frames show. 'solid' fills each frame with its own
+ * colour and 'gradient' fades from that colour to black going right.
+ */
+export type SyntheticPattern = ('solid' | 'gradient');
+
+/**
+ * Makes frames that can be told apart by their colour, so the output can be
+ * checked without a real video.
+ */
+export class SyntheticFrameSource implements FrameSource {
+    /**
+     * The size of the frames.
+     */
+    private frameSize: Size;
+
+    /**
+     * The number of frames in the input.
+     */
+    private frameCount: number;
+
+    /**
+     * The framerate of the input.
+     */
+    private fps: number;
+
+    /**
+     * What the frames show.
+     */
+    private pattern: SyntheticPattern;
+
+    /**
+     * The canvas the frames are drawn on.
+     */
+    private canvas: Canvas;
+
+    /**
+     * Time in seconds into the input of the first frame to read.
+     */
+    private startTime = 0;
+
+    /**
+     * The framerate the frames are read at.
+     */
+    private readFps = 0;
+
+    /**
+     * The most frames to read.
+     */
+    private framesToRead = 0;
+
+    /**
+     * The number of frames read so far.
+     */
+    private framesRead = 0;
+
+    /**
+     * @param frameSize The size of the frames.
+     * @param frameCount The number of frames in the input.
+     * @param fps The framerate of the input.
+     * @param pattern What the frames show.
+     */
+    constructor(frameSize: Size, frameCount: number, fps: number, pattern: SyntheticPattern = 'solid') {
+        this.frameSize = frameSize;
+        this.frameCount = frameCount;
+        this.fps = fps;
+        this.pattern = pattern;
+    }
+
+    public get FramesRead(): number {
+        return this.framesRead;
+    }
+
+    /**
+     * Gets the colour of a frame. Neighbouring frames are far apart in hue.
+     * @param frameNum The number of the frame in the input, starting at 0.
+     */
+    public static GetFrameColor(frameNum: number): Color {
+        const rgb = HslToRgb((frameNum * 137.5) % 360, 1, 0.5);
+        return new Color(Math.round(rgb[0]), Math.round(rgb[1]), Math.round(rgb[2]));
+    }
+
+    public async Probe(): Promise<MediaInfo> {
+        return {
+            width: this.frameSize.Width,
+            height: this.frameSize.Height,
+            rotation: 0,
+            fps: this.fps,
+            duration: this.frameCount / this.fps,
+            audioStreams: 0
+        };
+    }
+
+    public Start(startTime: number, fps: number, frameCount: number) {
+        this.startTime = startTime;
+        this.readFps = fps;
+        this.framesToRead = frameCount;
+        this.canvas = createCanvas(this.frameSize.Width, this.frameSize.Height);
+    }
+
+    public async Next(): Promise<Frame> {
+        // Frames are picked by time, so reading at another framerate repeats
+        // or skips them like FFmpeg does.
+        const time = this.startTime + this.framesRead / this.readFps;
+        const frameNum = Math.floor(time * this.fps + 1e-6);
+        if (this.framesRead >= this.framesToRead || frameNum >= this.frameCount) {
+            return null;
+        }
+
+        const context = this.canvas.getContext('2d');
+        const color = SyntheticFrameSource.GetFrameColor(frameNum).ToCssString();
+        if (this.pattern === 'gradient') {
+            const gradient = context.createLinearGradient(0, 0, this.frameSize.Width, 0);
+            gradient.addColorStop(0, color);
+            gradient.addColorStop(1, '#000');
+            context.fillStyle = gradient;
+        }
+        else {
+            context.fillStyle = color;
+        }
+
+        context.fillRect(0, 0, this.frameSize.Width, this.frameSize.Height);
+        this.framesRead++;
+        return this.canvas;
+    }
+
+    public async Close() {
+        this.framesToRead = 0;
+    }
+}
+
+/**
+ * Keeps a copy of every frame written to it.
+ */
+export class CollectingFrameSink implements FrameSink {
+    /**
+     * The frames written so far.
+     */
+    public Frames: Canvas[] = [];
+
+    /**
+     * The size of the frames, once opened.
+     */
+    public FrameSize: Size = null;
+
+    /**
+     * The framerate of the output, once opened.
+     */
+    public Fps = 0;
+
+    /**
+     * Whether the output was finished.
+     */
+    public Finished = false;
+
+    /**
+     * Whether the output was aborted.
+     */
+    public Aborted = false;
+
+    public Open(frameSize: Size, fps: number) {
+        this.FrameSize = frameSize;
+        this.Fps = fps;
+    }
+
+    public async Write(canvas: Canvas) {
+        const copy = createCanvas(canvas.width, canvas.height);
+        copy.getContext('2d').drawImage(canvas, 0, 0);
+        this.Frames.push(copy);
+    }
+
+    public async Finish() {
+        this.Finished = true;
+    }
+
+    public async Abort() {
+        this.Aborted = true;
+        this.Frames = [];
+    }
+}
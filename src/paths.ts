@@ -0,0 +1,48 @@
+/**
+ * @file Module for adding shapes to the paths of canvases.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { SKRSContext2D } from '@napi-rs/canvas';
+import { Point, Polygon } from './geom';
+
+/**
+ * Adds a line through a list of points to the current path of a context.
+ * @param context The context.
+ * @param points The points of the line.
+ */
+export function AddLineToPath(context: SKRSContext2D, points: Point[]) {
+    points.forEach(function(point: Point, index: number) {
+        if (index === 0) {
+            context.moveTo(point.X, point.Y);
+        }
+        else {
+            context.lineTo(point.X, point.Y);
+        }
+    });
+}
+
+/**
+ * Adds a polygon to the current path of a context.
+ * @param context The context.
+ * @param polygon The polygon.
+ */
+export function AddPolygonToPath(context: SKRSContext2D, polygon: Polygon) {
+    AddLineToPath(context, polygon.Points);
+    context.closePath();
+}
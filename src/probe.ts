@@ -0,0 +1,254 @@
+/**
+ * @file Module for probing input files with FFprobe.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { loadImage } from '@napi-rs/canvas';
+import * as child from 'child_process';
+import * as path from 'path';
+import { ImageSequence } from './sequence';
+
+/**
+ * Information about a media file found by probing it.
+ */
+export interface MediaInfo {
+    /**
+     * Width of the video in pixels, as displayed after rotation.
+     */
+    width: number;
+
+    /**
+     * Height of the video in pixels, as displayed after rotation.
+     */
+    height: number;
+
+    /**
+     * Rotation of the video in degrees clockwise.
+     */
+    rotation: number;
+
+    /**
+     * Framerate of the video, or 0 if unknown.
+     */
+    fps: number;
+
+    /**
+     * Duration in seconds, or 0 if unknown.
+     */
+    duration: number;
+
+    /**
+     * Number of audio streams.
+     */
+    audioStreams: number;
+}
+
+/**
+ * The parts of a stream given by FFprobe that are used.
+ */
+interface FfprobeStream {
+    /**
+     * The kind of stream, such as "video" or "audio".
+     */
+    codec_type: string;
+
+    /**
+     * Width of a video in pixels, before rotation.
+     */
+    width?: number;
+
+    /**
+     * Height of a video in pixels, before rotation.
+     */
+    height?: number;
+
+    /**
+     * Duration in seconds.
+     */
+    duration?: string;
+
+    /**
+     * Average framerate, such as "30000/1001".
+     */
+    avg_frame_rate?: string;
+
+    /**
+     * Base framerate, such as "30/1".
+     */
+    r_frame_rate?: string;
+
+    /**
+     * Tags of the stream, where older files keep their rotation.
+     */
+    tags?: { rotate?: string };
+
+    /**
+     * Side data of the stream, where the display matrix keeps the rotation.
+     */
+    side_data_list?: { rotation?: number }[];
+}
+
+/**
+ * The parts of the output of FFprobe that are used.
+ */
+interface FfprobeResult {
+    /**
+     * The streams of the file.
+     */
+    streams?: FfprobeStream[];
+
+    /**
+     * The container of the file.
+     */
+    format?: { duration?: string };
+}
+
+/**
+ * Gets the path to FFprobe that comes with a given FFmpeg.
+ * @param ffmpegPath The path to FFmpeg.
+ */
+export function GetFfprobePath(ffmpegPath: string): string {
+    const name = path.basename(ffmpegPath);
+    return ffmpegPath.substring(0, ffmpegPath.length - name.length) + name.replace(/ffmpeg/i, 'ffprobe');
+}
+
+/**
+ * Parses a rate given by FFprobe such as "30000/1001".
+ * @param rate The rate to parse.
+ * @returns The rate, or 0 if it is missing or invalid.
+ */
+function ParseRate(rate: string): number {
+    if (!rate) {
+        return 0;
+    }
+
+    const parts = rate.split('/');
+    const value = (parts.length === 2 ? parseFloat(parts[0]) / parseFloat(parts[1]) : parseFloat(rate));
+    return (isFinite(value) && value > 0 ? value : 0);
+}
+
+/**
+ * Gets the rotation of a video stream from its tags or display matrix.
+ * @param stream The stream given by FFprobe.
+ * @returns Rotation in degrees clockwise in the range of 0-359.
+ */
+function GetRotation(stream: FfprobeStream): number {
+    let rotation = 0;
+    if (stream.tags && stream.tags.rotate) {
+        rotation = parseInt(stream.tags.rotate, 10);
+    }
+    else if (stream.side_data_list) {
+        for (let sideData of stream.side_data_list) {
+            if (sideData.rotation !== undefined) {
+                // The display matrix rotates counter-clockwise.
+                rotation = -sideData.rotation;
+                break;
+            }
+        }
+    }
+
+    rotation = Math.round(rotation) % 360;
+    return (rotation < 0 ? rotation + 360 : rotation);
+}
+
+/**
+ * Probes a media file.
+ * @param ffprobePath The path to FFprobe.
+ * @param input The file to probe.
+ */
+export function ProbeMedia(ffprobePath: string, input: string): Promise<MediaInfo> {
+    return new Promise(function(resolve, reject) {
+        child.execFile(
+            ffprobePath,
+            [
+                '-v', 'error',                                  // Log level.
+                '-show_streams',                                // Show every stream.
+                '-show_format',                                 // Show the container.
+                '-of', 'json',                                  // Output format.
+                input
+            ],
+            function(error: child.ExecException, stdout: string, stderr: string) {
+                if (error) {
+                    reject(new Error(`FFprobe failed to probe "${input}": ${stderr.trim() || error.message}`));
+                    return;
+                }
+
+                let result: FfprobeResult;
+                try {
+                    result = JSON.parse(stdout);
+                }
+                catch (e) {
+                    reject(new Error(`FFprobe gave invalid output for "${input}": ${e.message}`));
+                    return;
+                }
+
+                const streams = (result && result.streams) || [];
+                const video = streams.find((stream) => stream.codec_type === 'video');
+                if (!video) {
+                    reject(new Error(`No video stream found in "${input}".`));
+                    return;
+                }
+
+                // FFmpeg rotates frames when decoding, so the size is swapped
+                // for portrait rotations.
+                const rotation = GetRotation(video);
+                const swap = (rotation === 90 || rotation === 270);
+                const duration = parseFloat(video.duration || (result.format && result.format.duration));
+
+                resolve({
+                    width: (swap ? video.height : video.width),
+                    height: (swap ? video.width : video.height),
+                    rotation,
+                    fps: ParseRate(video.avg_frame_rate) || ParseRate(video.r_frame_rate),
+                    duration: (isFinite(duration) ? duration : 0),
+                    audioStreams: streams.filter((stream) => stream.codec_type === 'audio').length
+                });
+            }
+        );
+    });
+}
+
+/**
+ * Probes a sequence of images. PNG and JPEG images are measured directly and
+ * anything else is probed with FFprobe.
+ * @param ffprobePath The path to FFprobe.
+ * @param sequence The sequence to probe.
+ * @param fps The framerate the images play at.
+ */
+export async function ProbeImageSequence(ffprobePath: string, sequence: ImageSequence, fps: number): Promise<MediaInfo> {
+    let width: number, height: number;
+    if (sequence.IsDirect) {
+        const image = await loadImage(sequence.GetPath(0));
+        width = image.width;
+        height = image.height;
+    }
+    else {
+        const info = await ProbeMedia(ffprobePath, sequence.GetPath(0));
+        width = info.width;
+        height = info.height;
+    }
+
+    return {
+        width,
+        height,
+        rotation: 0,
+        fps,
+        duration: sequence.Length / fps,
+        audioStreams: 0
+    };
+}
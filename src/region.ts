@@ -0,0 +1,270 @@
+/**
+ * @file Module for sweeps limited to regions of the frame.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { Rectangle, Size } from './geom';
+import { Dimension, ParseDimension } from './linestyle';
+import { SweepGeometry, SweepShape, SweepShapeName, SWEEP_SHAPE_NAMES } from './sweep';
+import { ParseEasing, SweepCurve } from './timing';
+
+/**
+ * A box of the frame that sweeps on its own. Positions and sizes are pixels,
+ * or percentages of the width or height of the frame. Settings left unset use
+ * the ones of the whole effect.
+ */
+export interface SweepRegion {
+    /**
+     * Distance of the left side from the left of the frame.
+     */
+    x: Dimension;
+
+    /**
+     * Distance of the top side from the top of the frame.
+     */
+    y: Dimension;
+
+    /**
+     * Width of the box.
+     */
+    width: Dimension;
+
+    /**
+     * Height of the box.
+     */
+    height: Dimension;
+
+    /**
+     * The angle of the sweep in degrees.
+     */
+    angle?: number;
+
+    /**
+     * The shape of the sweep.
+     */
+    shape?: SweepShapeName;
+
+    /**
+     * The easing of the line's movement.
+     */
+    easing?: string;
+
+    /**
+     * Seconds after the start of the effect before the line starts moving.
+     */
+    delay?: number;
+
+    /**
+     * Seconds the sweep takes, not including the delay.
+     */
+    length?: number;
+}
+
+/**
+ * Parses a number for a setting of a region.
+ * @param name The name of the setting.
+ * @param value The value of the setting.
+ */
+function ParseRegionNumber(name: string, value: string): number {
+    const number = Number(value);
+    if (value.trim() === '' || !isFinite(number)) {
+        throw new Error(`Invalid ${name} "${value}". Expected a number.`);
+    }
+
+    return number;
+}
+
+/**
+ * Parses a region given as "x,y,w,h" followed by any of ",angle=..",
+ * ",shape=..", ",easing=..", ",delay=.." and ",length=..".
+ * @param value The region to parse.
+ */
+export function ParseRegion(value: string): SweepRegion {
+    const parts = value.split(',').map((part) => part.trim());
+    if (parts.length < 4) {
+        throw new Error(`Invalid region "${value}". Expected x,y,w,h in pixels or percentages.`);
+    }
+
+    const region: SweepRegion = {
+        x: ParseDimension(parts[0]),
+        y: ParseDimension(parts[1]),
+        width: ParseDimension(parts[2]),
+        height: ParseDimension(parts[3])
+    };
+
+    for (let part of parts.slice(4)) {
+        const pieces = part.split('=');
+        if (pieces.length !== 2) {
+            throw new Error(`Invalid region setting "${part}". Expected name=value.`);
+        }
+
+        const name = pieces[0].trim();
+        const setting = pieces[1].trim();
+        switch (name) {
+            case 'angle': {
+                region.angle = ParseRegionNumber(name, setting);
+                break;
+            }
+            case 'shape': {
+                if (SWEEP_SHAPE_NAMES.indexOf(setting as SweepShapeName) === -1) {
+                    throw new Error(`Invalid shape "${setting}". Expected one of ${SWEEP_SHAPE_NAMES.join(', ')}.`);
+                }
+
+                region.shape = setting as SweepShapeName;
+                break;
+            }
+            case 'easing': {
+                ParseEasing(setting);
+                region.easing = setting;
+                break;
+            }
+            case 'delay':
+            case 'length': {
+                const time = ParseRegionNumber(name, setting);
+                if (time < 0 || (name === 'length' && time === 0)) {
+                    throw new Error(`The ${name} of a region must be ${name === 'length' ? 'more than' : 'at least'} 0.`);
+                }
+
+                region[name] = time;
+                break;
+            }
+            default: {
+                throw new Error(`Unknown region setting "${name}". Expected angle, shape, easing, delay or length.`);
+            }
+        }
+    }
+
+    return region;
+}
+
+/**
+ * Resolves a position or size of a region to pixels.
+ * @param value Pixels, or a percentage.
+ * @param side The length of the side of the frame percentages are of.
+ */
+function ResolveRegionDimension(value: Dimension, side: number): number {
+    if (typeof value === 'string' && value.endsWith('%')) {
+        return parseFloat(value) / 100 * side;
+    }
+
+    return (typeof value === 'number' ? value : parseFloat(value));
+}
+
+/**
+ * Gets the box of a region in pixels.
+ * @param region The region.
+ * @param frameSize The size of the frame.
+ * @returns The box, trimmed to the frame.
+ */
+export function ResolveRegionRect(region: SweepRegion, frameSize: Size): Rectangle {
+    const rect = new Rectangle(
+        ResolveRegionDimension(region.x, frameSize.Width),
+        ResolveRegionDimension(region.y, frameSize.Height),
+        ResolveRegionDimension(region.width, frameSize.Width),
+        ResolveRegionDimension(region.height, frameSize.Height)
+    );
+
+    return rect.Intersect(new Rectangle(0, 0, frameSize.Width, frameSize.Height));
+}
+
+/**
+ * A sweep inside one box of the frame with its own timing.
+ */
+export class RegionSweep {
+    /**
+     * The box being swept.
+     */
+    public Bounds: Rectangle;
+
+    /**
+     * The angle of the sweep in degrees. What it means depends on the shape.
+     */
+    public Angle: number;
+
+    /**
+     * The shape of the sweep.
+     */
+    private shape: SweepShape;
+
+    /**
+     * The position of the line over time.
+     */
+    private curve: SweepCurve;
+
+    /**
+     * Seconds after the start of the effect before the line starts moving.
+     */
+    private delay: number;
+
+    /**
+     * Seconds the sweep takes, not including the delay.
+     */
+    private length: number;
+
+    /**
+     * Whether the line goes back the way it came in the second half.
+     */
+    private pingPong: boolean;
+
+    /**
+     * @param bounds The box being swept.
+     * @param angle The angle of the sweep in degrees. What it means depends on
+     * the shape.
+     * @param shape The shape of the sweep.
+     * @param curve The position of the line over time. In ping-pong sweeps it
+     * covers one way.
+     * @param delay Seconds after the start of the effect before the line starts
+     * moving.
+     * @param length Seconds the sweep takes, not including the delay.
+     * @param pingPong Whether the line goes back the way it came in the second
+     * half.
+     */
+    constructor(bounds: Rectangle, angle: number, shape: SweepShape, curve: SweepCurve, delay: number, length: number, pingPong: boolean) {
+        this.Bounds = bounds;
+        this.Angle = angle;
+        this.shape = shape;
+        this.curve = curve;
+        this.delay = delay;
+        this.length = length;
+        this.pingPong = pingPong;
+    }
+
+    /**
+     * Gets how far the line has swept.
+     * @param time Seconds since the start of the effect.
+     */
+    public GetProgress(time: number): number {
+        const sweepTime = Math.min(Math.max(0, time - this.delay), this.length);
+        if (this.pingPong) {
+            // Across in the first half, then back the same way.
+            const half = this.length / 2;
+            return this.curve.GetPosition(sweepTime <= half ? sweepTime : this.length - sweepTime);
+        }
+
+        return this.curve.GetPosition(sweepTime);
+    }
+
+    /**
+     * Gets the geometry of the sweep.
+     * @param time Seconds since the start of the effect.
+     */
+    public GetGeometry(time: number): SweepGeometry {
+        return this.shape.GetGeometry(this.Bounds, this.GetProgress(time));
+    }
+}
@@ -0,0 +1,201 @@
+/**
+ * @file Module for numbered image sequences.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Extensions of images that can be read and written without FFmpeg.
+ */
+const DIRECT_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+/**
+ * Extensions of images that can be part of a sequence.
+ */
+const SEQUENCE_IMAGE_EXTENSIONS = [...DIRECT_IMAGE_EXTENSIONS, '.bmp', '.tif', '.tiff', '.exr', '.dpx', '.tga', '.webp'];
+
+/**
+ * Matches the frame number pattern of a sequence, such as "%04d".
+ */
+const NUMBER_PATTERN = /%(0?\d*)d/;
+
+/**
+ * Whether a path is a pattern for a sequence, such as "shot_%04d.png".
+ * @param value The path.
+ */
+export function IsSequencePattern(value: string): boolean {
+    return NUMBER_PATTERN.test(path.basename(value));
+}
+
+/**
+ * Whether an image can be read or written without FFmpeg.
+ * @param file The path of the image.
+ */
+export function IsDirectImage(file: string): boolean {
+    return DIRECT_IMAGE_EXTENSIONS.indexOf(path.extname(file).toLowerCase()) !== -1;
+}
+
+/**
+ * Whether a file is an image that can be part of a sequence.
+ * @param file The path of the image.
+ */
+export function IsSequenceImage(file: string): boolean {
+    return SEQUENCE_IMAGE_EXTENSIONS.indexOf(path.extname(file).toLowerCase()) !== -1;
+}
+
+/**
+ * Puts a frame number into a sequence pattern.
+ * @param pattern The pattern, such as "shot_%04d.png".
+ * @param frameNumber The frame number.
+ */
+export function FormatSequencePath(pattern: string, frameNumber: number): string {
+    return pattern.replace(NUMBER_PATTERN, function(match: string, width: string) {
+        return frameNumber.toString().padStart(parseInt(width, 10) || 0, '0');
+    });
+}
+
+/**
+ * Escapes text for use in a regular expression.
+ * @param text The text.
+ */
+function EscapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A numbered sequence of images.
+ */
+export class ImageSequence {
+    /**
+     * The pattern of the paths, such as "shot_%04d.png".
+     */
+    public Pattern: string;
+
+    /**
+     * The frame numbers of the images in order.
+     */
+    public FrameNumbers: number[];
+
+    /**
+     * @param pattern The pattern of the paths, such as "shot_%04d.png".
+     * @param frameNumbers The frame numbers of the images in order.
+     */
+    constructor(pattern: string, frameNumbers: number[]) {
+        this.Pattern = pattern;
+        this.FrameNumbers = frameNumbers;
+    }
+
+    /**
+     * The number of images.
+     */
+    public get Length(): number {
+        return this.FrameNumbers.length;
+    }
+
+    /**
+     * Whether every image can be read without FFmpeg.
+     */
+    public get IsDirect(): boolean {
+        return IsDirectImage(this.Pattern);
+    }
+
+    /**
+     * Gets the path of an image.
+     * @param index The index of the image in the sequence.
+     */
+    public GetPath(index: number): string {
+        return FormatSequencePath(this.Pattern, this.FrameNumbers[index]);
+    }
+
+    /**
+     * Finds the images of a sequence given as a pattern or a directory.
+     * @param input A pattern such as "shot_%04d.png", or a directory holding
+     * only the numbered images.
+     * @returns The sequence, or null if the input isn't a sequence.
+     */
+    public static Find(input: string): ImageSequence {
+        if (IsSequencePattern(input)) {
+            return ImageSequence.FromPattern(input);
+        }
+
+        if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+            return ImageSequence.FromDirectory(input);
+        }
+
+        return null;
+    }
+
+    /**
+     * Finds the images matching a pattern.
+     * @param pattern The pattern, such as "shot_%04d.png".
+     */
+    private static FromPattern(pattern: string): ImageSequence {
+        const directory = path.dirname(pattern);
+        const name = path.basename(pattern);
+        const match = NUMBER_PATTERN.exec(name);
+        const width = parseInt(match[1], 10) || 0;
+        const matcher = new RegExp('^' + EscapeRegExp(name.substring(0, match.index)) +
+            `(\\d{${width || 1},})` + EscapeRegExp(name.substring(match.index + match[0].length)) + '$');
+
+        const files = (fs.existsSync(directory) ? fs.readdirSync(directory) : []);
+        const frameNumbers: number[] = [];
+        for (let file of files) {
+            const fileMatch = matcher.exec(file);
+            if (fileMatch) {
+                frameNumbers.push(parseInt(fileMatch[1], 10));
+            }
+        }
+
+        if (frameNumbers.length === 0) {
+            throw new Error(`No images found matching "${pattern}".`);
+        }
+
+        return new ImageSequence(pattern, frameNumbers.sort((a, b) => a - b));
+    }
+
+    /**
+     * Finds the numbered images in a directory. They must all be named the
+     * same way apart from their number.
+     * @param directory The directory.
+     */
+    private static FromDirectory(directory: string): ImageSequence {
+        const files = fs.readdirSync(directory).filter(IsSequenceImage);
+
+        if (files.length === 0) {
+            throw new Error(`No images found in "${directory}".`);
+        }
+
+        let pattern: string = null;
+        const frameNumbers: number[] = [];
+        for (let file of files) {
+            const match = /^(.*?)(\d+)(\.\w+)$/.exec(file);
+            const filePattern = (match ? `${match[1]}%0${match[2].length}d${match[3]}` : null);
+            if (!match || (pattern !== null && filePattern !== pattern)) {
+                throw new Error(`The images in "${directory}" must all be named the same way with a frame number, such as shot_0001.png.`);
+            }
+
+            pattern = filePattern;
+            frameNumbers.push(parseInt(match[2], 10));
+        }
+
+        return new ImageSequence(path.join(directory, pattern), frameNumbers.sort((a, b) => a - b));
+    }
+}
@@ -0,0 +1,151 @@
+/**
+ * @file Module for reading and writing image sequences without FFmpeg.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { loadImage, Canvas } from '@napi-rs/canvas';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EncodeFrame, Frame, FrameEncoding, FrameSink, FrameSource } from './frames';
+import { Size } from './geom';
+import { MediaInfo, ProbeImageSequence } from './probe';
+import { FormatSequencePath, ImageSequence } from './sequence';
+
+/**
+ * The quality of JPEG images in the range of 0-1.
+ */
+const JPEG_QUALITY = 0.95;
+
+/**
+ * Reads the PNG or JPEG images of a sequence straight from their files.
+ */
+export class ImageSequenceFrameSource implements FrameSource {
+    /**
+     * The images.
+     */
+    private sequence: ImageSequence;
+
+    /**
+     * The framerate the images play at.
+     */
+    private fps: number;
+
+    /**
+     * The index of the next image to read.
+     */
+    private nextIndex = 0;
+
+    /**
+     * The index after the last image to read.
+     */
+    private endIndex = 0;
+
+    /**
+     * The number of frames read so far.
+     */
+    private framesRead = 0;
+
+    /**
+     * @param sequence The images.
+     * @param fps The framerate the images play at.
+     */
+    constructor(sequence: ImageSequence, fps: number) {
+        this.sequence = sequence;
+        this.fps = fps;
+    }
+
+    public get FramesRead(): number {
+        return this.framesRead;
+    }
+
+    public Probe(): Promise<MediaInfo> {
+        return ProbeImageSequence(null, this.sequence, this.fps);
+    }
+
+    public Start(startTime: number, fps: number, frameCount: number) {
+        this.nextIndex = Math.round(startTime * fps);
+        this.endIndex = Math.min(this.nextIndex + frameCount, this.sequence.Length);
+    }
+
+    public async Next(): Promise<Frame> {
+        if (this.nextIndex >= this.endIndex) {
+            return null;
+        }
+
+        this.framesRead++;
+        return loadImage(await fs.promises.readFile(this.sequence.GetPath(this.nextIndex++)));
+    }
+
+    public async Close() {
+        this.endIndex = 0;
+    }
+}
+
+/**
+ * Writes frames straight to PNG or JPEG images numbered from 1, like the
+ * sequences FFmpeg writes.
+ */
+export class ImageSequenceFrameSink implements FrameSink {
+    /**
+     * The pattern of the paths, such as "frames/out_%04d.png".
+     */
+    private pattern: string;
+
+    /**
+     * The number of frames written so far.
+     */
+    private framesWritten = 0;
+
+    /**
+     * @param pattern The pattern of the paths, such as "frames/out_%04d.png".
+     */
+    constructor(pattern: string) {
+        this.pattern = pattern;
+    }
+
+    public Open(frameSize: Size, fps: number) {
+        fs.mkdirSync(path.dirname(this.pattern), { recursive: true });
+    }
+
+    public get Encoding(): FrameEncoding {
+        return (path.extname(this.pattern).toLowerCase() === '.png' ? { type: 'png' } : { type: 'jpeg', quality: JPEG_QUALITY });
+    }
+
+    public async Write(canvas: Canvas) {
+        await this.WriteEncoded(EncodeFrame(canvas, this.Encoding));
+    }
+
+    public async WriteEncoded(data: Buffer) {
+        await fs.promises.writeFile(FormatSequencePath(this.pattern, ++this.framesWritten), data);
+    }
+
+    public async Finish() {
+    }
+
+    public async Abort() {
+        for (let frameNum = 1; frameNum <= this.framesWritten; ++frameNum) {
+            try {
+                fs.unlinkSync(FormatSequencePath(this.pattern, frameNum));
+            }
+            catch (e) {
+                // It was already removed.
+            }
+        }
+    }
+}
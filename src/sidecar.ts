@@ -0,0 +1,250 @@
+/**
+ * @file Module for writing where the line was on every frame.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Point, Rectangle, Size } from './geom';
+
+/**
+ * The format of a sidecar file. 'ae' is After Effects keyframe data that can
+ * be pasted onto two point controls.
+ */
+export type SidecarFormat = ('json' | 'csv' | 'ae');
+
+/**
+ * Names of all the sidecar formats.
+ */
+export const SIDECAR_FORMATS: SidecarFormat[] = ['json', 'csv', 'ae'];
+
+/**
+ * What happened on one frame of the output.
+ */
+export interface SidecarFrame {
+    /**
+     * Index of the frame in the output, starting at 0.
+     */
+    frame: number;
+
+    /**
+     * Time of the frame in the output in seconds.
+     */
+    time: number;
+
+    /**
+     * Index of the frame of the input it was made from, starting at 0.
+     */
+    sourceFrame: number;
+
+    /**
+     * How far the sweep furthest along has gone in the range of 0-1.
+     */
+    progress: number;
+
+    /**
+     * The start and end of each line drawn.
+     */
+    lines: Point[][];
+
+    /**
+     * The bounds of the frozen area, or null if nothing is frozen.
+     */
+    frozenBounds: Rectangle;
+}
+
+/**
+ * Rounds a coordinate so the files don't fill up with float noise.
+ * @param value The coordinate.
+ */
+function Round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Collects what happened on every frame and writes it out once the effect is
+ * done.
+ */
+export class SidecarWriter {
+    /**
+     * The formats to write.
+     */
+    private formats: SidecarFormat[];
+
+    /**
+     * The framerate of the output.
+     */
+    private fps: number;
+
+    /**
+     * The size of the frames.
+     */
+    private frameSize: Size;
+
+    /**
+     * The frames added so far.
+     */
+    private frames: SidecarFrame[] = [];
+
+    /**
+     * @param formats The formats to write.
+     * @param fps The framerate of the output.
+     * @param frameSize The size of the frames.
+     */
+    constructor(formats: SidecarFormat[], fps: number, frameSize: Size) {
+        this.formats = formats;
+        this.fps = fps;
+        this.frameSize = frameSize;
+    }
+
+    /**
+     * Gets the path of the sidecar file for an output, next to it.
+     * @param output The path of the output.
+     * @param format The format of the sidecar file.
+     */
+    public static GetPath(output: string, format: SidecarFormat): string {
+        // Image sequences drop their frame number pattern.
+        const base = output.substring(0, output.length - path.extname(output).length).replace(/[_-]?%\d*d/, '');
+        return base + (format === 'ae' ? '_keyframes.txt' : '.' + format);
+    }
+
+    /**
+     * Adds a frame.
+     * @param frame What happened on the frame.
+     */
+    public Add(frame: SidecarFrame) {
+        this.frames.push(frame);
+    }
+
+    /**
+     * Writes a file in every format next to the output.
+     * @param output The path of the output.
+     * @returns The paths of the files written.
+     */
+    public async Write(output: string): Promise<string[]> {
+        const paths: string[] = [];
+        for (let format of this.formats) {
+            const filePath = SidecarWriter.GetPath(output, format);
+            let contents: string;
+            switch (format) {
+                case 'csv': {
+                    contents = this.ToCsv();
+                    break;
+                }
+                case 'ae': {
+                    contents = this.ToAfterEffects();
+                    break;
+                }
+                default: {
+                    contents = this.ToJson();
+                    break;
+                }
+            }
+
+            await fs.promises.writeFile(filePath, contents, { encoding: 'utf-8' });
+            paths.push(filePath);
+        }
+
+        return paths;
+    }
+
+    /**
+     * Formats the frames as JSON.
+     */
+    private ToJson(): string {
+        return JSON.stringify({
+            fps: this.fps,
+            width: this.frameSize.Width,
+            height: this.frameSize.Height,
+            frames: this.frames.map((frame) => ({
+                frame: frame.frame,
+                time: Round(frame.time),
+                sourceFrame: frame.sourceFrame,
+                progress: Round(frame.progress),
+                lines: frame.lines.map((line) => line.map((point) => ({ x: Round(point.X), y: Round(point.Y) }))),
+                frozenBounds: (frame.frozenBounds ? {
+                    x: Round(frame.frozenBounds.X),
+                    y: Round(frame.frozenBounds.Y),
+                    width: Round(frame.frozenBounds.Width),
+                    height: Round(frame.frozenBounds.Height)
+                } : null)
+            }))
+        }, null, 2);
+    }
+
+    /**
+     * Formats the frames as CSV, with a row for every line of every frame and
+     * one row for frames without a line.
+     */
+    private ToCsv(): string {
+        const rows = ['frame,time,source_frame,progress,line,x1,y1,x2,y2,frozen_x,frozen_y,frozen_width,frozen_height'];
+        for (let frame of this.frames) {
+            const bounds = frame.frozenBounds;
+            const start = [frame.frame, Round(frame.time), frame.sourceFrame, Round(frame.progress)].join(',');
+            const end = (bounds ? [bounds.X, bounds.Y, bounds.Width, bounds.Height].map(Round).join(',') : ',,,');
+            if (frame.lines.length === 0) {
+                rows.push(`${start},,,,,,${end}`);
+                continue;
+            }
+
+            frame.lines.forEach(function(line: Point[], index: number) {
+                const points = [line[0].X, line[0].Y, line[line.length - 1].X, line[line.length - 1].Y].map(Round).join(',');
+                rows.push(`${start},${index},${points},${end}`);
+            });
+        }
+
+        return rows.join('\n') + '\n';
+    }
+
+    /**
+     * Formats the start and end of the first line as After Effects keyframe
+     * data for two point controls.
+     */
+    private ToAfterEffects(): string {
+        const lines = [
+            'Adobe After Effects 8.0 Keyframe Data',
+            '',
+            `\tUnits Per Second\t${this.fps}`,
+            `\tSource Width\t${this.frameSize.Width}`,
+            `\tSource Height\t${this.frameSize.Height}`,
+            '\tSource Pixel Aspect Ratio\t1',
+            '\tComp Pixel Aspect Ratio\t1',
+            ''
+        ];
+
+        for (let control = 1; control <= 2; ++control) {
+            lines.push(`Effects\tPoint Control #${control}\tPoint #2`);
+            lines.push('\tFrame\tX pixels\tY pixels\t');
+            for (let frame of this.frames) {
+                if (frame.lines.length === 0) {
+                    continue;
+                }
+
+                const line = frame.lines[0];
+                const point = (control === 1 ? line[0] : line[line.length - 1]);
+                lines.push(`\t${frame.frame}\t${Round(point.X)}\t${Round(point.Y)}\t`);
+            }
+
+            lines.push('');
+        }
+
+        lines.push('End of Keyframe Data');
+        return lines.join('\r\n') + '\r\n';
+    }
+}
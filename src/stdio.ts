@@ -0,0 +1,75 @@
+/**
+ * @file Module for reading from and writing to the standard streams.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline } from 'stream';
+
+/**
+ * The path used for reading from stdin or writing to stdout.
+ */
+export const STDIO_PATH = '-';
+
+/**
+ * Whether a path means stdin or stdout.
+ * @param file The path.
+ */
+export function IsStdio(file: string): boolean {
+    return file === STDIO_PATH;
+}
+
+/**
+ * Copies a stream to a temporary file, so it can be probed and read more than
+ * once.
+ * @param stream The stream, such as stdin.
+ * @returns The path of the file.
+ */
+export async function SpoolToTempFile(stream: NodeJS.ReadableStream): Promise<string> {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'openblueline-'));
+    const file = path.join(directory, 'input');
+    await new Promise<void>(function(resolve, reject) {
+        pipeline(stream, fs.createWriteStream(file), function(error: Error) {
+            if (error) {
+                reject(new Error(`Failed to read the input from stdin: ${error.message}`));
+            }
+            else {
+                resolve();
+            }
+        });
+    });
+
+    return file;
+}
+
+/**
+ * Removes a file made by SpoolToTempFile along with its directory. Failures
+ * are ignored since the system cleans up temporary files eventually.
+ * @param file The path of the file.
+ */
+export function RemoveTempFile(file: string) {
+    try {
+        fs.unlinkSync(file);
+        fs.rmdirSync(path.dirname(file));
+    }
+    catch (e) {
+    }
+}
@@ -0,0 +1,269 @@
+/**
+ * @file Module for the shapes a sweep can take.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { HalfPlane, Point, Polygon, Rectangle } from './geom';
+
+/**
+ * Number of segments used for approximating a full circle.
+ */
+const CIRCLE_SEGMENTS = 180;
+
+/**
+ * The name of a sweep shape.
+ */
+export type SweepShapeName = ('line' | 'radial' | 'clock' | 'center-out' | 'edges-in');
+
+/**
+ * Names of all the sweep shapes.
+ */
+export const SWEEP_SHAPE_NAMES: SweepShapeName[] = ['line', 'radial', 'clock', 'center-out', 'edges-in'];
+
+/**
+ * The geometry of a sweep at one point of its progress.
+ */
+export interface SweepGeometry {
+    /**
+     * The regions behind the line that are frozen. They don't overlap.
+     */
+    frozen: Polygon[];
+
+    /**
+     * The lines to draw, each as a list of points to connect.
+     */
+    lines: Point[][];
+}
+
+/**
+ * A shape a sweep can take.
+ */
+export interface SweepShape {
+    /**
+     * Gets the geometry of the sweep.
+     * @param bounds The area being swept.
+     * @param progress How far the sweep has gone in the range of 0-1.
+     */
+    GetGeometry(bounds: Rectangle, progress: number): SweepGeometry;
+}
+
+/**
+ * A straight line going across at an angle. The frozen region is everything
+ * behind it.
+ */
+export class LineSweep implements SweepShape {
+    /**
+     * The angle the line goes in degrees clockwise from going right.
+     */
+    private angle: number;
+
+    /**
+     * @param angle The angle the line goes in degrees clockwise from going
+     * right.
+     */
+    constructor(angle: number) {
+        this.angle = angle;
+    }
+
+    public GetGeometry(bounds: Rectangle, progress: number): SweepGeometry {
+        const polygon = bounds.ToPolygon();
+        const livePlane = HalfPlane.FromAngle(this.angle, 0);
+        const range = polygon.Project(livePlane.Normal);
+        livePlane.Offset = range[0] + (range[1] - range[0]) * progress;
+
+        return {
+            frozen: NonEmpty([polygon.ClipToHalfPlane(livePlane.Flip())]),
+            lines: NonEmpty([livePlane.GetBoundarySegment(polygon)])
+        };
+    }
+}
+
+/**
+ * Two lines going outwards from the centre, or inwards from the edges. The
+ * frozen region is everything the lines have passed.
+ */
+export class TwinLineSweep implements SweepShape {
+    /**
+     * The angle one of the lines goes in degrees clockwise from going right.
+     */
+    private angle: number;
+
+    /**
+     * Whether the lines start at the edges instead of the centre.
+     */
+    private inwards: boolean;
+
+    /**
+     * @param angle The angle one of the lines goes in degrees clockwise from
+     * going right.
+     * @param inwards Whether the lines start at the edges instead of the
+     * centre.
+     */
+    constructor(angle: number, inwards: boolean) {
+        this.angle = angle;
+        this.inwards = inwards;
+    }
+
+    public GetGeometry(bounds: Rectangle, progress: number): SweepGeometry {
+        const polygon = bounds.ToPolygon();
+        const axis = HalfPlane.FromAngle(this.angle, 0).Normal;
+        const range = polygon.Project(axis);
+        const middle = (range[0] + range[1]) / 2;
+        const halfSpan = (range[1] - range[0]) / 2;
+
+        // Distance of both lines from the centre.
+        const distance = halfSpan * (this.inwards ? 1 - progress : progress);
+        const forward = new HalfPlane(axis, middle + distance);
+        const backward = forward.Flip();
+        backward.Offset = -(middle - distance);
+
+        let frozen: Polygon[];
+        if (this.inwards) {
+            // Beyond either line.
+            frozen = [polygon.ClipToHalfPlane(forward), polygon.ClipToHalfPlane(backward)];
+        }
+        else {
+            // Between the lines.
+            frozen = [polygon.ClipToHalfPlane(forward.Flip()).ClipToHalfPlane(backward.Flip())];
+        }
+
+        return {
+            frozen: NonEmpty(frozen),
+            lines: NonEmpty([forward.GetBoundarySegment(polygon), backward.GetBoundarySegment(polygon)])
+        };
+    }
+}
+
+/**
+ * A circle growing from the centre. The frozen region is inside of it.
+ */
+export class RadialSweep implements SweepShape {
+    public GetGeometry(bounds: Rectangle, progress: number): SweepGeometry {
+        const centre = GetCentre(bounds);
+        const radius = Math.hypot(bounds.Width, bounds.Height) / 2 * progress;
+        const circle: Point[] = [];
+        for (let i = 0; i <= CIRCLE_SEGMENTS; ++i) {
+            const radians = i / CIRCLE_SEGMENTS * Math.PI * 2;
+            circle.push(new Point(centre.X + Math.cos(radians) * radius, centre.Y + Math.sin(radians) * radius));
+        }
+
+        return {
+            frozen: NonEmpty([ClipToRectangle(new Polygon(circle.slice(0, -1)), bounds)]),
+            lines: (radius > 0 ? [circle] : [])
+        };
+    }
+}
+
+/**
+ * A ray turning clockwise around the centre like the hand of a clock. The
+ * frozen region is what the ray has passed.
+ */
+export class ClockSweep implements SweepShape {
+    /**
+     * Where the ray starts in degrees clockwise from 12 o'clock.
+     */
+    private angle: number;
+
+    /**
+     * @param angle Where the ray starts in degrees clockwise from 12 o'clock.
+     */
+    constructor(angle: number) {
+        this.angle = angle;
+    }
+
+    public GetGeometry(bounds: Rectangle, progress: number): SweepGeometry {
+        const centre = GetCentre(bounds);
+
+        // Long enough to reach every corner.
+        const radius = Math.hypot(bounds.Width, bounds.Height);
+        const startRadians = (this.angle - 90) * Math.PI / 180;
+        const sweepRadians = progress * Math.PI * 2;
+        const GetRayEnd = function(radians: number): Point {
+            return new Point(centre.X + Math.cos(radians) * radius, centre.Y + Math.sin(radians) * radius);
+        };
+
+        const sector = [centre];
+        const segments = Math.ceil(CIRCLE_SEGMENTS * progress);
+        for (let i = 0; i <= segments; ++i) {
+            sector.push(GetRayEnd(startRadians + sweepRadians * (segments === 0 ? 0 : i / segments)));
+        }
+
+        return {
+            frozen: NonEmpty([ClipToRectangle(new Polygon(sector), bounds)]),
+            lines: [[centre, GetRayEnd(startRadians + sweepRadians)]]
+        };
+    }
+}
+
+/**
+ * Creates a sweep shape.
+ * @param name The name of the shape.
+ * @param angle The angle of the sweep in degrees. What it means depends on the
+ * shape.
+ */
+export function CreateSweepShape(name: SweepShapeName, angle: number): SweepShape {
+    switch (name) {
+        case 'radial': {
+            return new RadialSweep();
+        }
+        case 'clock': {
+            return new ClockSweep(angle);
+        }
+        case 'center-out': {
+            return new TwinLineSweep(angle, false);
+        }
+        case 'edges-in': {
+            return new TwinLineSweep(angle, true);
+        }
+        default: {
+            return new LineSweep(angle);
+        }
+    }
+}
+
+/**
+ * Gets the centre of a rectangle.
+ * @param rect The rectangle.
+ */
+function GetCentre(rect: Rectangle): Point {
+    return new Point(rect.X + rect.Width / 2, rect.Y + rect.Height / 2);
+}
+
+/**
+ * Clips a polygon to the inside of a rectangle.
+ * @param polygon The polygon.
+ * @param rect The rectangle.
+ */
+function ClipToRectangle(polygon: Polygon, rect: Rectangle): Polygon {
+    const bounds = rect.GetBounds();
+    return polygon
+        .ClipToHalfPlane(new HalfPlane(new Point(1, 0), bounds.TopLeft.X))
+        .ClipToHalfPlane(new HalfPlane(new Point(0, 1), bounds.TopLeft.Y))
+        .ClipToHalfPlane(new HalfPlane(new Point(-1, 0), -bounds.BottomRight.X))
+        .ClipToHalfPlane(new HalfPlane(new Point(0, -1), -bounds.BottomRight.Y));
+}
+
+/**
+ * Filters out polygons without area and lines without points.
+ * @param items The polygons or lines.
+ */
+function NonEmpty<T extends Polygon | Point[]>(items: T[]): T[] {
+    return items.filter(function(item: T) {
+        return (item instanceof Polygon ? !item.IsEmpty : (item as Point[]).length >= 2);
+    });
+}
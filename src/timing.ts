@@ -0,0 +1,291 @@
+/**
+ * @file Module for timing the position of the line.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import * as fs from 'fs';
+
+/**
+ * Maps progress through time in the range of 0-1 to progress through space.
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * A position of the line at a point in time.
+ */
+export interface Keyframe {
+    /**
+     * Seconds since the start of the sweep.
+     */
+    time: number;
+
+    /**
+     * How far the line has swept in the range of 0-1.
+     */
+    position: number;
+
+    /**
+     * Easing used for getting to this keyframe from the one before it.
+     */
+    easing?: string;
+}
+
+/**
+ * Easings that have a name, matching the CSS ones.
+ */
+const EASING_PRESETS: { [name: string]: number[] } = {
+    'ease': [0.25, 0.1, 0.25, 1],
+    'ease-in': [0.42, 0, 1, 1],
+    'ease-out': [0, 0, 0.58, 1],
+    'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+/**
+ * Names of the easing presets, including linear.
+ */
+export const EASING_NAMES = ['linear', ...Object.keys(EASING_PRESETS)];
+
+/**
+ * Creates a cubic bezier easing going from (0, 0) to (1, 1).
+ * @param x1 X of the first control point in the range of 0-1.
+ * @param y1 Y of the first control point.
+ * @param x2 X of the second control point in the range of 0-1.
+ * @param y2 Y of the second control point.
+ */
+export function CubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+    if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+        throw new Error('The X values of a cubic bezier must be in the range of 0-1.');
+    }
+
+    const Sample = function(a: number, b: number, t: number): number {
+        return 3 * a * t * (1 - t) * (1 - t) + 3 * b * t * t * (1 - t) + t * t * t;
+    };
+
+    const SampleSlope = function(a: number, b: number, t: number): number {
+        return 3 * a * (1 - t) * (1 - t) + 6 * (b - a) * t * (1 - t) + 3 * (1 - b) * t * t;
+    };
+
+    return function(x: number): number {
+        if (x <= 0 || x >= 1) {
+            return (x <= 0 ? 0 : 1);
+        }
+
+        // Find t for x with Newton's method, falling back to bisection.
+        let t = x;
+        for (let i = 0; i < 8; ++i) {
+            const error = Sample(x1, x2, t) - x;
+            const slope = SampleSlope(x1, x2, t);
+            if (Math.abs(error) < 1e-7) {
+                return Sample(y1, y2, t);
+            }
+
+            if (Math.abs(slope) < 1e-6) {
+                break;
+            }
+
+            t -= error / slope;
+        }
+
+        let low = 0, high = 1;
+        t = x;
+        for (let i = 0; i < 50; ++i) {
+            const sampled = Sample(x1, x2, t);
+            if (Math.abs(sampled - x) < 1e-7) {
+                break;
+            }
+
+            if (sampled < x) {
+                low = t;
+            }
+            else {
+                high = t;
+            }
+
+            t = (low + high) / 2;
+        }
+
+        return Sample(y1, y2, t);
+    };
+}
+
+/**
+ * Parses an easing.
+ * @param value A preset name or "cubic-bezier(x1, y1, x2, y2)".
+ */
+export function ParseEasing(value: string): EasingFunction {
+    const name = value.trim().toLowerCase();
+    if (name === 'linear') {
+        return (t: number) => t;
+    }
+
+    const preset = EASING_PRESETS[name];
+    if (preset) {
+        return CubicBezier(preset[0], preset[1], preset[2], preset[3]);
+    }
+
+    const match = /^cubic-bezier\(([^)]*)\)$/.exec(name);
+    if (match) {
+        const values = match[1].split(',').map((part) => Number(part.trim()));
+        if (values.length !== 4 || values.some((part) => !isFinite(part))) {
+            throw new Error(`Invalid cubic bezier "${value}". Expected four numbers.`);
+        }
+
+        return CubicBezier(values[0], values[1], values[2], values[3]);
+    }
+
+    throw new Error(`Unknown easing "${value}". Expected one of ${EASING_NAMES.join(', ')} or cubic-bezier(x1, y1, x2, y2).`);
+}
+
+/**
+ * Parses a time given in seconds or as [[hh:]mm:]ss.
+ * @param value The time to parse.
+ */
+export function ParseTime(value: string): number {
+    let time = 0;
+    for (let part of value.split(':')) {
+        const number = Number(part);
+        if (part === '' || !(number >= 0)) {
+            throw new TypeError(`invalid time: '${value}'`);
+        }
+
+        time = time * 60 + number;
+    }
+
+    return time;
+}
+
+/**
+ * Parses a length of time, or "auto".
+ * @param value The length to parse.
+ */
+export function ParseTimeOrAuto(value: string): number | 'auto' {
+    return (value === 'auto' ? value : ParseTime(value));
+}
+
+/**
+ * Checks keyframes and sorts them by time.
+ * @param keyframes The keyframes.
+ * @returns The sorted keyframes.
+ */
+export function ValidateKeyframes(keyframes: Keyframe[]): Keyframe[] {
+    if (!Array.isArray(keyframes) || keyframes.length === 0) {
+        throw new Error('Keyframes must be a non-empty list.');
+    }
+
+    keyframes.forEach(function(keyframe: Keyframe, index: number) {
+        if (typeof keyframe !== 'object' || keyframe === null) {
+            throw new Error(`Keyframe #${index + 1} must be an object with a time and position.`);
+        }
+
+        if (typeof keyframe.time !== 'number' || !(keyframe.time >= 0)) {
+            throw new Error(`Keyframe #${index + 1} has an invalid time. It must be a number of seconds of at least 0.`);
+        }
+
+        if (typeof keyframe.position !== 'number' || !(keyframe.position >= 0 && keyframe.position <= 1)) {
+            throw new Error(`Keyframe #${index + 1} has an invalid position. It must be a number in the range of 0-1.`);
+        }
+
+        if (keyframe.easing !== undefined) {
+            ParseEasing(keyframe.easing);
+        }
+    });
+
+    return keyframes.slice().sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Reads keyframes given inline as "time=position,..." or from a JSON file
+ * holding a list of objects with a time, position and optional easing.
+ * @param value The inline keyframes or path to the file.
+ */
+export function ReadKeyframes(value: string): Keyframe[] {
+    if (fs.existsSync(value)) {
+        let keyframes;
+        try {
+            keyframes = JSON.parse(fs.readFileSync(value, { encoding: 'utf-8' }));
+        }
+        catch (e) {
+            throw new Error(`Failed to read keyframes from "${value}": ${e.message}`);
+        }
+
+        return ValidateKeyframes(keyframes);
+    }
+
+    return ValidateKeyframes(value.split(',').map(function(part: string): Keyframe {
+        const pieces = part.split('=');
+        if (pieces.length !== 2) {
+            throw new Error(`Invalid keyframe "${part}". Expected time=position, or the path to a JSON file.`);
+        }
+
+        return { time: Number(pieces[0]), position: Number(pieces[1]) };
+    }));
+}
+
+/**
+ * The position of the line over time, going through keyframes.
+ */
+export class SweepCurve {
+    /**
+     * The keyframes sorted by time.
+     */
+    private keyframes: Keyframe[];
+
+    /**
+     * The easing of each keyframe.
+     */
+    private easings: EasingFunction[];
+
+    /**
+     * @param keyframes The keyframes. Assumed to be validated.
+     * @param easing Easing used for keyframes that don't have their own.
+     */
+    constructor(keyframes: Keyframe[], easing: EasingFunction) {
+        this.keyframes = keyframes;
+        this.easings = keyframes.map((keyframe) => (keyframe.easing ? ParseEasing(keyframe.easing) : easing));
+    }
+
+    /**
+     * The time of the last keyframe.
+     */
+    public get Length(): number {
+        return this.keyframes[this.keyframes.length - 1].time;
+    }
+
+    /**
+     * Gets the position of the line. It holds before the first keyframe and
+     * after the last one.
+     * @param time Seconds since the start of the sweep.
+     */
+    public GetPosition(time: number): number {
+        const keyframes = this.keyframes;
+        if (time <= keyframes[0].time) {
+            return keyframes[0].position;
+        }
+
+        for (let i = 1; i < keyframes.length; ++i) {
+            const next = keyframes[i];
+            if (time < next.time) {
+                const previous = keyframes[i - 1];
+                const t = (time - previous.time) / (next.time - previous.time);
+                return previous.position + (next.position - previous.position) * this.easings[i](t);
+            }
+        }
+
+        return keyframes[keyframes.length - 1].position;
+    }
+}
@@ -0,0 +1,231 @@
+/**
+ * @file Module for running tasks on a pool of worker threads.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+import { Worker } from 'worker_threads';
+
+/**
+ * What a worker sends back for a task.
+ */
+export interface WorkerReply<TResult> {
+    /**
+     * The result of the task, if it succeeded.
+     */
+    result?: TResult;
+
+    /**
+     * The message of the error the task failed with, if it failed.
+     */
+    error?: string;
+}
+
+/**
+ * Gets the buffers of views that can be handed to another thread instead of
+ * copied. Views that share their buffer, such as small Buffers from the pool
+ * of Node, are left to be copied, since handing one over would empty the
+ * others.
+ * @param views The views.
+ */
+export function GetTransferList(views: ArrayBufferView[]): ArrayBuffer[] {
+    const buffers: ArrayBuffer[] = [];
+    for (let view of views) {
+        const buffer = view.buffer;
+        if (buffer instanceof ArrayBuffer && view.byteOffset === 0 && view.byteLength === buffer.byteLength && buffers.indexOf(buffer) === -1) {
+            buffers.push(buffer);
+        }
+    }
+
+    return buffers;
+}
+
+/**
+ * A task waiting for or running on a worker.
+ */
+interface PendingTask<TTask, TResult> {
+    /**
+     * The task sent to the worker.
+     */
+    task: TTask;
+
+    /**
+     * Buffers of the task handed over to the worker instead of copied.
+     */
+    transfer: ArrayBuffer[];
+
+    /**
+     * Resolves the promise of the task.
+     */
+    resolve: (result: TResult) => void;
+
+    /**
+     * Rejects the promise of the task.
+     */
+    reject: (error: Error) => void;
+}
+
+/**
+ * Runs tasks on a fixed number of worker threads, one task per worker at a
+ * time. Workers start with the same data and reply to each task with a
+ * WorkerReply.
+ */
+export class WorkerPool<TData, TTask, TResult> {
+    /**
+     * All of the workers.
+     */
+    private workers: Worker[] = [];
+
+    /**
+     * Workers that aren't running a task.
+     */
+    private idle: Worker[] = [];
+
+    /**
+     * Tasks waiting for a worker, oldest first.
+     */
+    private queue: PendingTask<TTask, TResult>[] = [];
+
+    /**
+     * The task each busy worker is running.
+     */
+    private running = new Map<Worker, PendingTask<TTask, TResult>>();
+
+    /**
+     * Whether the pool is being closed, so workers exiting isn't an error.
+     */
+    private closing = false;
+
+    /**
+     * Called when a worker fails outside of a task, such as by crashing.
+     */
+    private errorHandler: (error: Error) => void;
+
+    /**
+     * @param script Path of the script the workers run.
+     * @param size Number of workers.
+     * @param workerData Data every worker starts with. It gets copied with the
+     * structured clone algorithm, so class instances arrive as plain objects.
+     * @param errorHandler Called when a worker fails outside of a task, such as
+     * by crashing.
+     */
+    constructor(script: string, size: number, workerData: TData, errorHandler: (error: Error) => void) {
+        this.errorHandler = errorHandler;
+        for (let i = 0; i < size; ++i) {
+            const worker = new Worker(script, { workerData });
+            worker.on('message', (reply: WorkerReply<TResult>) => this.OnReply(worker, reply));
+            worker.on('error', (error: Error) => this.OnWorkerFailed(worker, error));
+            worker.on('exit', (code: number) => {
+                if (!this.closing) {
+                    this.OnWorkerFailed(worker, new Error(`A worker thread exited with code ${code}.`));
+                }
+            });
+
+            this.workers.push(worker);
+            this.idle.push(worker);
+        }
+    }
+
+    /**
+     * Number of workers.
+     */
+    public get Size(): number {
+        return this.workers.length;
+    }
+
+    /**
+     * Runs a task on the next free worker.
+     * @param task The task.
+     * @param transfer Buffers of the task to hand over to the worker instead
+     * of copying. They can't be used here afterwards.
+     * @returns The result the worker replied with.
+     */
+    public Run(task: TTask, transfer: ArrayBuffer[] = []): Promise<TResult> {
+        if (this.closing) {
+            return Promise.reject(new Error('The worker pool is closed.'));
+        }
+
+        return new Promise<TResult>((resolve, reject) => {
+            this.queue.push({ task, transfer, resolve, reject });
+            this.Dispatch();
+        });
+    }
+
+    /**
+     * Stops every worker. Tasks that haven't finished are rejected.
+     */
+    public async Close() {
+        this.closing = true;
+        const error = new Error('The worker pool was closed.');
+        for (let pending of [...this.queue, ...this.running.values()]) {
+            pending.reject(error);
+        }
+
+        this.queue = [];
+        this.running.clear();
+        await Promise.all(this.workers.map((worker) => worker.terminate()));
+    }
+
+    /**
+     * Sends waiting tasks to idle workers.
+     */
+    private Dispatch() {
+        while (this.idle.length > 0 && this.queue.length > 0) {
+            const worker = this.idle.shift();
+            const pending = this.queue.shift();
+            this.running.set(worker, pending);
+            worker.postMessage(pending.task, pending.transfer);
+        }
+    }
+
+    /**
+     * Finishes the task of a worker with its reply.
+     * @param worker The worker.
+     * @param reply The reply.
+     */
+    private OnReply(worker: Worker, reply: WorkerReply<TResult>) {
+        const pending = this.running.get(worker);
+        this.running.delete(worker);
+        this.idle.push(worker);
+        if (pending) {
+            if (reply.error !== undefined) {
+                pending.reject(new Error(reply.error));
+            }
+            else {
+                pending.resolve(reply.result);
+            }
+        }
+
+        this.Dispatch();
+    }
+
+    /**
+     * Fails the task of a worker that crashed and reports it.
+     * @param worker The worker.
+     * @param error What went wrong.
+     */
+    private OnWorkerFailed(worker: Worker, error: Error) {
+        const pending = this.running.get(worker);
+        this.running.delete(worker);
+        if (pending) {
+            pending.reject(error);
+        }
+
+        this.errorHandler(error);
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * @file Tests for generating the effect for batches of inputs.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GenerateResult } from '../src/blueline';
+import { BatchJob, BatchResult, ExpandInputs, FillOutputTemplate, FormatBatchSummary, RunBatch, ValidateBatchOutputs } from '../src/batch';
+import { MakeTempDirectory } from './fakeffmpeg';
+
+/**
+ * The values of the placeholders every template in the tests is filled with.
+ */
+const TEMPLATE_VALUES = { dir: 'right', color: '00c2cb', effect: 'blueline', mode: 'freeze' };
+
+/**
+ * Makes the result of a job that wrote some frames.
+ * @param output The output of the job.
+ * @param frames The number of frames.
+ */
+function MakeResult(output: string, frames: number): GenerateResult {
+    return { output, frames, sidecars: [], timings: { probe: 0, render: 0, total: 0 } };
+}
+
+describe('ExpandInputs', function() {
+    let directory: string;
+
+    beforeEach(function() {
+        directory = MakeTempDirectory();
+        fs.mkdirSync(path.join(directory, 'videos'));
+        fs.mkdirSync(path.join(directory, 'frames'));
+        for (let file of ['videos/b.mp4', 'videos/a.MOV', 'videos/notes.txt', 'frames/0001.png', 'frames/0002.png']) {
+            fs.writeFileSync(path.join(directory, file), '');
+        }
+    });
+
+    afterEach(function() {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('expands directories of videos and keeps image sequences', function() {
+        const videos = path.join(directory, 'videos');
+        const frames = path.join(directory, 'frames');
+        assert.deepStrictEqual(ExpandInputs([videos, frames]), [path.join(videos, 'a.MOV'), path.join(videos, 'b.mp4'), frames]);
+    });
+
+    it('expands patterns and drops duplicates', function() {
+        const video = path.join(directory, 'videos', 'b.mp4');
+        assert.deepStrictEqual(ExpandInputs([video, path.join(directory, 'videos', '*.mp4')]), [video]);
+        assert.deepStrictEqual(ExpandInputs([path.join(directory, '**', '*.png')]), [path.join(directory, 'frames', '0001.png'), path.join(directory, 'frames', '0002.png')]);
+    });
+
+    it('rejects patterns matching nothing and stdin with other inputs', function() {
+        assert.throws(() => ExpandInputs([path.join(directory, '*.mkv')]), /No inputs match/);
+        assert.throws(() => ExpandInputs(['-', path.join(directory, 'videos', 'b.mp4')]), /stdin/);
+    });
+});
+
+describe('FillOutputTemplate', function() {
+    it('fills in the placeholders for an input', function() {
+        assert.strictEqual(FillOutputTemplate('renders/{name}_{dir}_{color}.{ext}', 'clips/beach.mov', TEMPLATE_VALUES), 'renders/beach_right_00c2cb.mov');
+        assert.strictEqual(FillOutputTemplate('{name}_{effect}_{mode}.mp4', 'shots/shot_%04d.png', TEMPLATE_VALUES), 'shot_blueline_freeze.mp4');
+    });
+
+    it('rejects unknown placeholders', function() {
+        assert.throws(() => FillOutputTemplate('{title}.mp4', 'beach.mp4', TEMPLATE_VALUES), /Unknown placeholder "\{title\}"/);
+    });
+});
+
+describe('ValidateBatchOutputs', function() {
+    it('rejects two inputs written to the same output', function() {
+        ValidateBatchOutputs([{ input: 'a.mp4', output: 'a_out.mp4' }, { input: 'b.mp4', output: 'b_out.mp4' }]);
+        assert.throws(
+            () => ValidateBatchOutputs([{ input: 'a/clip.mp4', output: 'out/clip.mp4' }, { input: 'b/clip.mp4', output: './out/clip.mp4' }]),
+            /"a\/clip.mp4" and "b\/clip.mp4" would both be written/
+        );
+    });
+});
+
+describe('RunBatch', function() {
+    it('keeps going after a job fails and keeps the order of the jobs', async function() {
+        const jobs: BatchJob[] = ['a', 'b', 'c', 'd'].map((name) => ({ input: name + '.mp4', output: name + '_out.mp4' }));
+        let running = 0;
+        let mostRunning = 0;
+        const results = await RunBatch(jobs, 2, async function(job: BatchJob) {
+            running++;
+            mostRunning = Math.max(mostRunning, running);
+            await new Promise((resolve) => setTimeout(resolve, (job.input === 'a.mp4' ? 20 : 5)));
+            running--;
+            if (job.input === 'b.mp4') {
+                throw new Error('Input file does not exist.');
+            }
+
+            return MakeResult(job.output, 10);
+        });
+
+        assert.strictEqual(mostRunning, 2);
+        assert.deepStrictEqual(results.map((result) => result.job), jobs);
+        assert.deepStrictEqual(results.map((result) => (result.error ? result.error.message : result.result.frames)), [10, 'Input file does not exist.', 10, 10]);
+    });
+});
+
+describe('FormatBatchSummary', function() {
+    it('lists how each job went and counts the failures', function() {
+        const results: BatchResult[] = [
+            { job: { input: 'a.mp4', output: 'a_out.mp4' }, result: MakeResult('a_out.mp4', 250), error: null, time: 12.34 },
+            { job: { input: 'long_name.mp4', output: 'long_name_out.mp4' }, result: null, error: new Error('FFmpeg failed.\nMore details.'), time: 0.5 }
+        ];
+
+        assert.strictEqual(FormatBatchSummary(results), [
+            'Status  Input          Output             Time   Details',
+            '------  -------------  -----------------  -----  --------------',
+            'OK      a.mp4          a_out.mp4          12.3s  250 frames',
+            'FAILED  long_name.mp4  long_name_out.mp4  0.5s   FFmpeg failed.',
+            '',
+            '1 succeeded, 1 failed.'
+        ].join('\n'));
+    });
+});
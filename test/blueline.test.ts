@@ -0,0 +1,326 @@
+/**
+ * @file Tests for generating the effect from synthetic frames.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Canvas } from '@napi-rs/canvas';
+import { BlueLineGenerator, BlueLineGeneratorOptions, GenerateProgress, GenerateResult } from '../src/blueline';
+import { Color } from '../src/color';
+import { Size } from '../src/geom';
+import { CollectingFrameSink, SyntheticFrameSource } from '../src/memoryframes';
+import { CreateFakeFfmpeg, MakeTempDirectory } from './fakeffmpeg';
+
+/**
+ * The size of the synthetic frames.
+ */
+const FRAME_SIZE = new Size(100, 20);
+
+/**
+ * The framerate of the input and the output.
+ */
+const FPS = 10;
+
+/**
+ * Creates a generator that makes the effect from synthetic frames.
+ * @param sink Where the frames are written.
+ * @param options Options on top of the ones every test uses.
+ */
+function CreateGenerator(sink: CollectingFrameSink, options: Partial<BlueLineGeneratorOptions> = {}): BlueLineGenerator {
+    return new BlueLineGenerator({
+        input: 'synthetic.mp4',
+        output: 'output.mp4',
+        frameSource: new SyntheticFrameSource(FRAME_SIZE, 40, FPS),
+        frameSink: sink,
+        fps: FPS,
+        length: 1,
+        lineWidth: 2,
+        glowStrength: 0,
+        ...options
+    } as BlueLineGeneratorOptions);
+}
+
+/**
+ * Generates the effect from synthetic frames.
+ * @param options Options on top of the ones every test uses.
+ * @returns The result, the frames that were written and any warnings.
+ */
+async function Generate(options: Partial<BlueLineGeneratorOptions> = {}): Promise<{ result: GenerateResult, sink: CollectingFrameSink, warnings: string[] }> {
+    const sink = new CollectingFrameSink();
+    const generator = CreateGenerator(sink, options);
+    const warnings: string[] = [];
+    generator.on('warning', (message) => warnings.push(message));
+    const result = await generator.Generate();
+    return { result, sink, warnings };
+}
+
+/**
+ * Gets the colour of a pixel in the middle row of a frame.
+ * @param canvas The frame.
+ * @param x Column of the pixel.
+ */
+function GetPixel(canvas: Canvas, x: number): Color {
+    const data = canvas.getContext('2d').getImageData(x, Math.floor(canvas.height / 2), 1, 1).data;
+    return new Color(data[0], data[1], data[2]);
+}
+
+/**
+ * Checks that a pixel has the expected colour.
+ * @param actual The colour of the pixel.
+ * @param expected The colour it should have.
+ * @param message Describes the pixel when it doesn't match.
+ */
+function AssertColor(actual: Color, expected: Color, message: string) {
+    assert.deepStrictEqual(
+        [actual.Red, actual.Green, actual.Blue],
+        [expected.Red, expected.Green, expected.Blue],
+        message
+    );
+}
+
+/**
+ * Gets where the line is on a frame of a one second sweep to the right.
+ * @param sweepFrameNum The number of the frame in the sweep, starting at 0.
+ */
+function GetLineX(sweepFrameNum: number): number {
+    return FRAME_SIZE.Width * sweepFrameNum / (FPS - 1);
+}
+
+describe('BlueLineGenerator', function() {
+    it('writes a frame for every frame of the sweep', async function() {
+        const { result, sink } = await Generate();
+        assert.strictEqual(result.frames, FPS);
+        assert.strictEqual(sink.Frames.length, FPS);
+        assert.deepStrictEqual(sink.FrameSize, FRAME_SIZE);
+        assert.strictEqual(sink.Fps, FPS);
+        assert.ok(sink.Finished);
+        assert.ok(!sink.Aborted);
+    });
+
+    it('adds the lead-in and the tail to the frames', async function() {
+        const { result, sink } = await Generate({ start: 0.5, leadIn: 0.3, tail: 0.5 });
+        assert.strictEqual(result.frames, 3 + FPS + 5);
+        assert.strictEqual(sink.Frames.length, result.frames);
+    });
+
+    it('moves the line across the frames', async function() {
+        const { sink } = await Generate();
+        sink.Frames.forEach((frame, frameNum) => {
+            const x = Math.min(FRAME_SIZE.Width - 1, Math.floor(GetLineX(frameNum)));
+            AssertColor(GetPixel(frame, x), BlueLineGenerator.DEFAULT_LINE_COLOR, `The line isn't at ${x} on frame ${frameNum}.`);
+        });
+    });
+
+    it('freezes what the line has passed and keeps the rest live', async function() {
+        const { sink } = await Generate();
+        sink.Frames.forEach((frame, frameNum) => {
+            // Each slice between two positions of the line holds the frame
+            // from when the line was at its left edge.
+            for (let sliceNum = 0; sliceNum < frameNum; ++sliceNum) {
+                const x = Math.floor((GetLineX(sliceNum) + GetLineX(sliceNum + 1)) / 2);
+                AssertColor(GetPixel(frame, x), SyntheticFrameSource.GetFrameColor(sliceNum), `Column ${x} of frame ${frameNum} isn't frozen.`);
+            }
+
+            const liveX = Math.floor(GetLineX(frameNum)) + 3;
+            if (liveX < FRAME_SIZE.Width) {
+                AssertColor(GetPixel(frame, liveX), SyntheticFrameSource.GetFrameColor(frameNum), `Column ${liveX} of frame ${frameNum} isn't live.`);
+            }
+        });
+    });
+
+    for (let effect of ['blueline', 'slit-scan', 'smear'] as const) {
+        it(`composites the ${effect} effect the same on worker threads`, async function() {
+            const expected = await Generate({ effect, tail: 0.3, jobs: 1 });
+            const pooled = await Generate({ effect, tail: 0.3, jobs: 2 });
+            // Falling back to one thread warns.
+            assert.deepStrictEqual(pooled.warnings, []);
+            assert.strictEqual(pooled.sink.Frames.length, expected.sink.Frames.length);
+            pooled.sink.Frames.forEach((frame, frameNum) => {
+                const expectedFrame = expected.sink.Frames[frameNum];
+                assert.ok(frame.data().equals(expectedFrame.data()), `Frame ${frameNum} is different on worker threads.`);
+            });
+        });
+    }
+});
+
+describe('BlueLineGenerator events and failures', function() {
+    it('reports progress through every stage', async function() {
+        const generator = CreateGenerator(new CollectingFrameSink());
+        const progress: GenerateProgress[] = [];
+        generator.on('progress', (update) => progress.push(update));
+        await generator.Generate();
+
+        assert.deepStrictEqual(progress.map((update) => update.stage).filter((stage, index, stages) => stages.indexOf(stage) === index), ['probing', 'rendering', 'finishing']);
+        const frames = progress.filter((update) => update.stage === 'rendering').map((update) => update.frame);
+        assert.deepStrictEqual(frames, Array.from({ length: FPS + 1 }, (_, frame) => frame));
+        assert.strictEqual(progress[progress.length - 1].fraction, 1);
+    });
+
+    it('rejects and emits an error when the source fails', async function() {
+        const source = new SyntheticFrameSource(FRAME_SIZE, 40, FPS);
+        const next = source.Next.bind(source);
+        source.Next = async function() {
+            if (source.FramesRead === 3) {
+                throw new Error('The input is corrupt.');
+            }
+
+            return next();
+        };
+
+        const sink = new CollectingFrameSink();
+        const generator = CreateGenerator(sink, { frameSource: source });
+        const errors: Error[] = [];
+        let framesWritten = 0;
+        generator.on('error', (error) => errors.push(error));
+        generator.on('frame', () => framesWritten++);
+        generator.on('done', () => assert.fail('The output was finished.'));
+
+        await assert.rejects(generator.Generate(), { message: 'The input is corrupt.' });
+        assert.deepStrictEqual(errors.map((error) => error.message), ['The input is corrupt.']);
+        assert.strictEqual(framesWritten, 3);
+
+        // Aborting the sink throws away what was written.
+        assert.ok(sink.Aborted);
+        assert.deepStrictEqual(sink.Frames, []);
+        assert.ok(!sink.Finished);
+    });
+
+    it('rejects right away when already aborted, without starting FFmpeg', async function() {
+        const directory = MakeTempDirectory();
+        try {
+            const marker = path.join(directory, 'started');
+            const source = new SyntheticFrameSource(FRAME_SIZE, 40, FPS);
+            let probed = false;
+            source.Probe = async function() {
+                probed = true;
+                return SyntheticFrameSource.prototype.Probe.call(source);
+            };
+
+            const generator = new BlueLineGenerator({
+                input: 'synthetic.mp4',
+                output: path.join(directory, 'output.mp4'),
+                frameSource: source,
+                ffmpegPath: CreateFakeFfmpeg(directory, `require('fs').writeFileSync(${JSON.stringify(marker)}, '');`),
+                fps: FPS,
+                length: 1
+            } as Partial<BlueLineGeneratorOptions> as BlueLineGeneratorOptions);
+            const progress: GenerateProgress[] = [];
+            generator.on('progress', (update) => progress.push(update));
+
+            const controller = new AbortController();
+            controller.abort();
+            await assert.rejects(generator.Generate(controller.signal), { name: 'AbortError' });
+            assert.ok(!probed);
+            assert.deepStrictEqual(progress, []);
+            assert.ok(!fs.existsSync(marker));
+        }
+        finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('BlueLineGenerator with FFmpeg', function() {
+    let directory: string;
+
+    beforeEach(function() {
+        directory = MakeTempDirectory();
+    });
+
+    afterEach(function() {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    /**
+     * Creates a generator that encodes synthetic frames with a fake FFmpeg.
+     * The frames are too big to fit in the pipe, so writing them waits for the
+     * fake to read them.
+     * @param script The body of the script standing in for FFmpeg.
+     * @param output The path of the output.
+     */
+    function CreateGenerator(script: string, output: string = path.join(directory, 'output.mp4')): BlueLineGenerator {
+        const options: Partial<BlueLineGeneratorOptions> = {
+            input: 'synthetic.mp4',
+            output,
+            frameSource: new SyntheticFrameSource(new Size(640, 360), 40, FPS),
+            ffmpegPath: CreateFakeFfmpeg(directory, script),
+            fps: FPS,
+            length: 2
+        };
+        return new BlueLineGenerator(options as BlueLineGeneratorOptions);
+    }
+
+    it('stops FFmpeg and rejects when aborted partway', async function() {
+        // Like FFmpeg, it only stops once its input is closed.
+        const generator = CreateGenerator(`
+            process.on('SIGTERM', () => {});
+            process.stdin.resume();
+            process.stdin.on('end', () => process.exit(255));
+        `);
+        const controller = new AbortController();
+        generator.on('frame', (frameNum) => {
+            if (frameNum === 5) {
+                controller.abort();
+            }
+        });
+
+        await assert.rejects(generator.Generate(controller.signal), { name: 'AbortError' });
+    });
+
+    it('kills FFmpeg when it won\'t stop', async function() {
+        this.timeout(10000);
+        const generator = CreateGenerator(`
+            process.on('SIGTERM', () => {});
+            process.stdin.on('data', () => {});
+            process.stdin.on('end', () => {});
+            setInterval(() => {}, 1000);
+        `);
+        const controller = new AbortController();
+        generator.on('frame', (frameNum) => {
+            if (frameNum === 5) {
+                controller.abort();
+            }
+        });
+
+        await assert.rejects(generator.Generate(controller.signal), { name: 'AbortError' });
+    });
+
+    it('reports why FFmpeg failed to encode', async function() {
+        const generator = CreateGenerator(`
+            process.stderr.write("Unknown encoder 'nonexist'\\n");
+            process.exit(1);
+        `);
+
+        await assert.rejects(generator.Generate(), { message: 'FFmpeg failed to encode the output: Unknown encoder \'nonexist\'' });
+    });
+
+    it('makes the folder of the output', async function() {
+        const output = path.join(directory, 'renders', 'output.mp4');
+        const generator = CreateGenerator(`
+            process.stdin.resume();
+            process.stdin.on('end', () => require('fs').writeFileSync(process.argv[process.argv.length - 1], ''));
+        `, output);
+
+        await generator.Generate();
+        assert.ok(fs.existsSync(output));
+    });
+});
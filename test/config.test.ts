@@ -0,0 +1,95 @@
+/**
+ * @file Tests for reading options from config files and presets.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Color } from '../src/color';
+import { LoadConfigFile, MergeOptions, ParseConfig } from '../src/config';
+
+describe('ParseConfig', function() {
+    it('reads settings into options', function() {
+        const options = ParseConfig({ lineColor: [255, 0, 0], lineWidth: '1%', length: 'auto', start: '1:30', sidecar: 'json' }, 'test', '/configs');
+        assert.deepStrictEqual(options.lineColor, new Color(255, 0, 0));
+        assert.strictEqual(options.lineWidth, '1%');
+        assert.strictEqual(options.length, 'auto');
+        assert.strictEqual(options.start, 90);
+        assert.deepStrictEqual(options.sidecar, ['json']);
+    });
+
+    it('reads every length of time as a time', function() {
+        const options = ParseConfig({ leadIn: 0.5, tail: '0:02', crossfade: '0:01.5' }, 'test', '/configs');
+        assert.strictEqual(options.leadIn, 0.5);
+        assert.strictEqual(options.tail, 2);
+        assert.strictEqual(options.crossfade, 1.5);
+    });
+
+    it('reports every problem at once', function() {
+        assert.throws(
+            () => ParseConfig({ lineColour: '#fff', mode: 'melt', jobs: 1.5 }, 'test', '/configs'),
+            (e: Error) => e.message.includes('Did you mean "lineColor"?') && e.message.includes('"mode" is invalid') && e.message.includes('"jobs" is invalid')
+        );
+    });
+
+    it('rejects anything but an object of settings', function() {
+        assert.throws(() => ParseConfig(['lineColor'], 'test', '/configs'), /must hold an object of settings/);
+        assert.deepStrictEqual(ParseConfig(null, 'test', '/configs'), {});
+    });
+});
+
+describe('MergeOptions', function() {
+    it('lets stronger options win unless they are undefined', function() {
+        const merged = MergeOptions([{ tail: 1, crf: 20 }, { tail: 2, fps: 30 }], { tail: undefined, fps: 24 });
+        assert.deepStrictEqual(merged, { tail: 2, crf: 20, fps: 24 });
+    });
+});
+
+describe('LoadConfigFile', function() {
+    let directory: string;
+
+    beforeEach(function() {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'openblueline-'));
+    });
+
+    afterEach(function() {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('reads YAML and builds on presets', function() {
+        const file = path.join(directory, 'config.yaml');
+        fs.writeFileSync(file, 'extends: noir\nvignette: 0.2\nstill: still.png\n');
+        const options = LoadConfigFile(file);
+        assert.strictEqual(options.desaturate, 'grey');
+        assert.strictEqual(options.vignette, 0.2);
+        assert.strictEqual(options.still, path.join(directory, 'still.png'));
+    });
+
+    it('writes the output relative to the config', function() {
+        const file = path.join(directory, 'config.json');
+        fs.writeFileSync(file, JSON.stringify({ output: 'renders/{name}_{dir}.mp4' }));
+        assert.strictEqual(LoadConfigFile(file).output, path.join(directory, 'renders', '{name}_{dir}.mp4'));
+
+        fs.writeFileSync(file, JSON.stringify({ output: '-' }));
+        assert.strictEqual(LoadConfigFile(file).output, '-');
+    });
+});
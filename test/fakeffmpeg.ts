@@ -0,0 +1,45 @@
+/**
+ * @file Stand-ins for FFmpeg that tests can script.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Makes a temporary directory for the files of a test.
+ */
+export function MakeTempDirectory(): string {
+    return fs.mkdtempSync(path.join(os.tmpdir(), 'openblueline-'));
+}
+
+/**
+ * Writes an executable that runs a Node script in place of FFmpeg. The script
+ * gets the arguments FFmpeg would have.
+ * @param directory The directory to write it in.
+ * @param script The body of the script.
+ * @returns The path of the executable.
+ */
+export function CreateFakeFfmpeg(directory: string, script: string): string {
+    const file = path.join(directory, 'ffmpeg');
+    fs.writeFileSync(file, `#!${process.execPath}\n${script}\n`, { mode: 0o755 });
+    return file;
+}
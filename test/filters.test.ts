@@ -0,0 +1,49 @@
+/**
+ * @file Tests for the filters of the frozen area.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as assert from 'assert';
+import { Size } from '../src/geom';
+import { CreateTreatmentFilters } from '../src/filters';
+
+describe('CreateTreatmentFilters', function() {
+    it('blurs as far as the radius of the blur', function() {
+        const width = 61;
+        const data = new Uint8ClampedArray(width * 4);
+        data[30 * 4] = 255;
+        const filters = CreateTreatmentFilters({
+            tint: null,
+            desaturate: null,
+            desaturateAmount: 0,
+            brightness: 1,
+            contrast: 1,
+            blur: 9,
+            vignette: 0
+        }, new Size(width, 1));
+        for (let filter of filters) {
+            filter.Apply(data, width, 1);
+        }
+
+        // The point spreads out to around the radius and no further.
+        assert.ok(data[(30 + 6) * 4] > 0, 'The blur doesn\'t reach far enough.');
+        assert.strictEqual(data[(30 + 15) * 4], 0, 'The blur reaches too far.');
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * @file Tests for drawing the line.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as assert from 'assert';
+import { createCanvas } from '@napi-rs/canvas';
+import { Color } from '../src/color';
+import { Point, Size } from '../src/geom';
+import { LineRenderer } from '../src/linestyle';
+
+/**
+ * The size of the frame the line is drawn on.
+ */
+const FRAME_SIZE = new Size(100, 20);
+
+/**
+ * Draws a vertical line down the middle of a black frame and measures its glow.
+ * @param glowStrength How strong the glow is.
+ * @returns How bright the glow is a little to the side of the line.
+ */
+function MeasureGlow(glowStrength: number): number {
+    const canvas = createCanvas(FRAME_SIZE.Width, FRAME_SIZE.Height);
+    const context = canvas.getContext('2d');
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, FRAME_SIZE.Width, FRAME_SIZE.Height);
+
+    const renderer = new LineRenderer({
+        color: new Color(255, 255, 255),
+        width: 2,
+        glowRadius: 10,
+        glowStrength,
+        glowColor: null,
+        gradient: null,
+        dash: 'solid',
+        haloWidth: 0,
+        haloColor: null
+    }, FRAME_SIZE, 2, 10);
+    renderer.Draw(context, [[new Point(50, 0), new Point(50, FRAME_SIZE.Height)]]);
+    return context.getImageData(55, FRAME_SIZE.Height / 2, 1, 1).data[0];
+}
+
+describe('LineRenderer', function() {
+    it('glows more as the strength goes up, including between whole numbers', function() {
+        const strengths = [0, 0.5, 1, 1.2, 1.6, 2];
+        const glows = strengths.map(MeasureGlow);
+        assert.strictEqual(glows[0], 0);
+        for (let i = 1; i < glows.length; ++i) {
+            assert.ok(glows[i] > glows[i - 1], `A strength of ${strengths[i]} glows ${glows[i]}, which isn't more than ${glows[i - 1]} at ${strengths[i - 1]}.`);
+        }
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * @file Tests for probing media with FFprobe.
+ * @author Syeerus
+ *
+ * Copyright (C) 2021 Syeerus
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { ProbeMedia } from '../src/probe';
+import { CreateFakeFfmpeg, MakeTempDirectory } from './fakeffmpeg';
+
+describe('ProbeMedia', function() {
+    let directory: string;
+
+    beforeEach(function() {
+        directory = MakeTempDirectory();
+    });
+
+    afterEach(function() {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    /**
+     * Probes with a fake FFprobe that prints some output.
+     * @param output What FFprobe prints.
+     */
+    function Probe(output: string) {
+        const ffprobe = CreateFakeFfmpeg(directory, `process.stdout.write(${JSON.stringify(output)});`);
+        return ProbeMedia(ffprobe, 'input.mp4');
+    }
+
+    it('reads the video and audio streams', async function() {
+        const info = await Probe(JSON.stringify({
+            streams: [
+                { codec_type: 'video', width: 1920, height: 1080, avg_frame_rate: '30000/1001', side_data_list: [{ rotation: -90 }] },
+                { codec_type: 'audio' }
+            ],
+            format: { duration: '12.5' }
+        }));
+
+        assert.deepStrictEqual(info, { width: 1080, height: 1920, rotation: 90, fps: 30000 / 1001, duration: 12.5, audioStreams: 1 });
+    });
+
+    it('rejects empty or malformed output', async function() {
+        await assert.rejects(Probe(''), /FFprobe gave invalid output for "input.mp4"/);
+        await assert.rejects(Probe('{"streams": ['), /FFprobe gave invalid output for "input.mp4"/);
+        await assert.rejects(Probe('null'), /No video stream found in "input.mp4"/);
+    });
+});